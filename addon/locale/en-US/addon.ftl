@@ -2,4 +2,8 @@ startup-begin = Vibe Zotero Translate is loading
 startup-finish = Vibe Zotero Translate is ready
 menuitem-translate = Show Selected Text
 translate-popup-title = Selected Text
-translate-no-selection = No text selected
\ No newline at end of file
+translate-no-selection = No text selected
+history-header =
+    .label = Translations
+history-sidenav =
+    .tooltiptext = Translations
@@ -2,4 +2,8 @@ startup-begin = Vibe Zotero Translate 正在加载
 startup-finish = Vibe Zotero Translate 已就绪
 menuitem-translate = 显示选中文本
 translate-popup-title = 选中的文本
-translate-no-selection = 未选中任何文本
\ No newline at end of file
+translate-no-selection = 未选中任何文本
+history-header =
+    .label = 翻译记录
+history-sidenav =
+    .tooltiptext = 翻译记录
@@ -1,19 +1,100 @@
 /* eslint-disable no-undef */
 pref("enable", true);
 pref("popupPosition", "popup");
-pref("enableContext", true);
+// Context sent with a selection: "screenshot", "text" (surrounding sentences), "both" or "none"
+pref("contextMode", "both");
 pref("provider", "bedrock");
+// Per-provider generation settings: temperature/topP are strings (no float prefs),
+// topP "" = provider default, timeout in seconds (0 = none)
 // Bedrock settings
 pref("bedrock.apiKey", "");
 pref("bedrock.modelId", "us.anthropic.claude-sonnet-4-5-20250929-v1:0");
 pref("bedrock.region", "us-east-1");
+pref("bedrock.authMode", "apiKey");
+pref("bedrock.accessKeyId", "");
+pref("bedrock.secretAccessKey", "");
+pref("bedrock.sessionToken", "");
+pref("bedrock.profile", "");
+pref("bedrock.maxTokens", 4096);
+pref("bedrock.temperature", "0.1");
+pref("bedrock.topP", "");
+pref("bedrock.timeout", 60);
 // OpenAI Compatible settings
 pref("openai.apiKey", "");
 pref("openai.modelId", "gpt-4o");
 pref("openai.endpoint", "https://api.openai.com/v1/chat/completions");
+pref("openai.maxTokens", 4096);
+pref("openai.temperature", "0.1");
+pref("openai.topP", "");
+pref("openai.timeout", 60);
+// Anthropic settings
+pref("anthropic.apiKey", "");
+pref("anthropic.modelId", "claude-sonnet-4-5");
+pref("anthropic.endpoint", "https://api.anthropic.com/v1/messages");
+pref("anthropic.maxTokens", 4096);
+pref("anthropic.temperature", "0.1");
+pref("anthropic.topP", "");
+pref("anthropic.timeout", 60);
+// Google Gemini settings
+pref("google.apiKey", "");
+pref("google.modelId", "gemini-2.0-flash");
+pref("google.endpoint", "https://generativelanguage.googleapis.com/v1beta");
+pref("google.maxTokens", 4096);
+pref("google.temperature", "0.1");
+pref("google.topP", "");
+pref("google.timeout", 60);
+// Ollama (local) settings
+pref("ollama.apiKey", "");
+pref("ollama.modelId", "llava");
+pref("ollama.endpoint", "http://localhost:11434");
+pref("ollama.maxTokens", 4096);
+pref("ollama.temperature", "0.1");
+pref("ollama.topP", "");
+pref("ollama.timeout", 60);
+// Provider profiles (JSON array, managed in the preferences pane)
+pref("profiles", "[]");
+pref("activeProfile", "");
+// Failover: comma-separated profile names tried after the active provider
+pref("fallbackProfiles", "");
+pref("retry.maxRetries", 2);
+pref("retry.baseDelay", 1000);
 // Translation
 pref("targetLanguage", "zh-CN");
 pref("autoTranslate", false);
+pref("stream", true);
+// Prompt templates (empty = built-in default), edited in the preferences pane
+pref("prompt.word", "");
+pref("prompt.phrase", "");
+pref("prompt.passage", "");
+pref("prompt.document", "");
+pref("prompt.followup", "");
+pref("prompt.explain", "");
+pref("prompt.summarize", "");
+pref("prompt.paraphrase", "");
+pref("prompt.formula", "");
+pref("prompt.jargon", "");
+pref("prompt.polish", "");
+pref("prompt.region", "");
+// Translation cache (stored under <wordbook>/cache/)
+pref("cache.enabled", true);
+pref("cache.maxEntries", 2000);
+// Pronunciation: Web Speech voice (empty = first voice for the accent), with an
+// optional audio URL template as fallback ({text}, {lang} = en-GB/en-US, {accent} = uk/us)
+pref("tts.accent", "en-US");
+pref("tts.voice", "");
+pref("tts.endpoint", "");
+// Batch translation of a PDF's highlights: "comment" (annotation comments) or "note" (child note)
+pref("batch.target", "comment");
+pref("batch.concurrency", 2);
+// Page / document translation: "note" (bilingual child note) or "html" (file under <wordbook>/translations/),
+// text split into chunks of at most chunkChars characters, with up to concurrency requests in flight
+pref("document.output", "note");
+pref("document.chunkChars", 3000);
+pref("document.concurrency", 2);
+// Pinned entries of the translation history section (JSON array of keys)
+pref("history.pinned", "[]");
+// Floating panel geometry per window type (JSON object), saved when the panel is moved or resized
+pref("panel.geometry", "{}");
 // Wordbook
 pref("wordbookPath", "");
 pref("debug", true);
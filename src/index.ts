@@ -1,7 +1,15 @@
 import { log, debug, error } from "./modules/debug";
-import { onReaderTextSelection, triggerTranslation, installMouseUpTracker } from "./modules/translate";
-import { testConnection } from "./modules/llm-service";
+import { onReaderTextSelection, triggerTranslation, installMouseUpTracker, translateRegion } from "./modules/translate";
+import { testConnection, listOllamaModels } from "./modules/llm-service";
 import { registerServerEndpoints, openWordbook } from "./modules/wordbook";
+import { listProfileSummaries, saveCurrentAsProfile, deleteProfile, setActiveProfile } from "./modules/profiles";
+import { clearTranslationCache, flushTranslationCache } from "./modules/translation-cache";
+import { getDefaultTemplate, getTemplate, previewTemplate, setTemplate, toTemplateKind } from "./modules/prompt-templates";
+import { listVoices, speakWord } from "./modules/tts";
+import { migrateContextPref } from "./modules/text-context";
+import { cancelBatchJobs, getPdfAttachments, resumeBatchJobs, translateHighlights } from "./modules/batch-translate";
+import { cancelDocumentTranslation, translateDocument, translateFromReader } from "./modules/document-translate";
+import { registerHistorySection, unregisterHistorySection } from "./modules/history-section";
 
 const ADDON_ID = "vibe-zotero-translate@example.com";
 
@@ -16,13 +24,20 @@ const plugin: VibeZoteroTranslateGlobal = {
     (Zotero as any).__vibeTranslateRootURI = rootURI;
 
     try {
+      migrateContextPref();
       registerReaderListeners();
       registerKeyboardShortcut();
       registerMouseUpTracker();
+      registerContextMenus();
+      registerReaderToolbar();
+      registerHistory(rootURI);
 
       // Register wordbook endpoints on Zotero's built-in HTTP server
       registerServerEndpoints();
 
+      // Finish batch translations interrupted by the last shutdown
+      resumeBatchJobs();
+
       log("Initialized successfully");
     } catch (e: any) {
       error("Failed to initialize", e);
@@ -32,6 +47,9 @@ const plugin: VibeZoteroTranslateGlobal = {
   shutdown() {
     log("Shutting down");
     unregisterAll();
+    cancelBatchJobs();
+    cancelDocumentTranslation();
+    flushTranslationCache();
   },
 
   async testConnection() {
@@ -39,6 +57,61 @@ const plugin: VibeZoteroTranslateGlobal = {
     return testConnection();
   },
 
+  async listLocalModels(endpoint?: string) {
+    log("Local model discovery requested");
+    return listOllamaModels(endpoint);
+  },
+
+  listProfiles() {
+    return listProfileSummaries();
+  },
+
+  saveProfile(name) {
+    log(`Save profile requested: ${name}`);
+    return saveCurrentAsProfile(name).id;
+  },
+
+  deleteProfile(id) {
+    log(`Delete profile requested: ${id}`);
+    return deleteProfile(id);
+  },
+
+  setActiveProfile(id) {
+    setActiveProfile(id);
+  },
+
+  clearCache() {
+    log("Clear translation cache requested");
+    return clearTranslationCache();
+  },
+
+  getPromptTemplate(kind) {
+    return getTemplate(toTemplateKind(kind));
+  },
+
+  savePromptTemplate(kind, template) {
+    log(`Save prompt template requested: ${kind}`);
+    setTemplate(toTemplateKind(kind), template);
+  },
+
+  resetPromptTemplate(kind) {
+    log(`Reset prompt template requested: ${kind}`);
+    setTemplate(toTemplateKind(kind), "");
+    return getDefaultTemplate(toTemplateKind(kind));
+  },
+
+  previewPromptTemplate(kind, template) {
+    return previewTemplate(toTemplateKind(kind), template);
+  },
+
+  listVoices() {
+    return listVoices();
+  },
+
+  async pronounce(text, accent) {
+    return speakWord(text, accent === "en-GB" || accent === "en-US" ? accent : undefined);
+  },
+
   async openWordbook() {
     log("Open wordbook requested");
     openWordbook();
@@ -154,6 +227,112 @@ function registerMouseUpTracker() {
   }
 }
 
+/**
+ * Add "Translate Highlights" to the item context menu and the reader's
+ * annotation context menu, and "Translate Full Text" to the item menu.
+ */
+function registerContextMenus() {
+  try {
+    Zotero.Reader.registerEventListener(
+      "createAnnotationContextMenu",
+      (event: any) => {
+        const { reader, append } = event;
+        append({
+          label: "Translate All Highlights",
+          onCommand: () => {
+            const attachment = Zotero.Items.get(reader.itemID);
+            if (attachment) translateHighlights([attachment]);
+          },
+        });
+      },
+      ADDON_ID,
+    );
+
+    const win = Zotero.getMainWindow();
+    const itemMenu = win?.document.getElementById("zotero-itemmenu");
+    if (!itemMenu) {
+      debug("No item context menu to extend");
+      return;
+    }
+    const addMenuItem = (id: string, label: string, onCommand: (items: any[]) => void) => {
+      const menuItem = win.document.createXULElement("menuitem");
+      menuItem.id = id;
+      menuItem.setAttribute("label", label);
+      menuItem.addEventListener("command", () => onCommand(Zotero.getActiveZoteroPane().getSelectedItems()));
+      itemMenu.appendChild(menuItem);
+      return menuItem;
+    };
+    const menuItems = [
+      addMenuItem("vibe-translate-batch-menuitem", "Translate Highlights", translateHighlights),
+      addMenuItem("vibe-translate-document-menuitem", "Translate Full Text", translateDocument),
+    ];
+
+    // Only offered when the selection has PDFs
+    const onShowing = (e: Event) => {
+      if (e.target !== itemMenu) return;
+      const hasPdf = getPdfAttachments(Zotero.getActiveZoteroPane().getSelectedItems()).length > 0;
+      for (const menuItem of menuItems) menuItem.hidden = !hasPdf;
+    };
+    itemMenu.addEventListener("popupshowing", onShowing);
+    cleanupFns.push(() => {
+      try {
+        itemMenu.removeEventListener("popupshowing", onShowing);
+        for (const menuItem of menuItems) menuItem.remove();
+      } catch (_e) { /* ignore */ }
+    });
+
+    log("Registered context menus");
+  } catch (e: any) {
+    error("Error registering context menus", e);
+  }
+}
+
+/**
+ * Add page and region translation buttons to the reader toolbar.
+ */
+function registerReaderToolbar() {
+  try {
+    Zotero.Reader.registerEventListener(
+      "renderToolbar",
+      (event: any) => {
+        const { reader, doc, append } = event;
+        const button = doc.createElement("button");
+        button.className = "toolbar-button";
+        button.textContent = "文A";
+        button.title = "Translate this page (Shift+click: whole document)";
+        button.addEventListener("click", (e: MouseEvent) => {
+          translateFromReader(reader, e.shiftKey ? "document" : "page");
+        });
+        append(button);
+
+        const regionButton = doc.createElement("button");
+        regionButton.className = "toolbar-button";
+        regionButton.textContent = "⬚";
+        regionButton.title = "Translate a region: drag a rectangle over a formula or figure";
+        regionButton.addEventListener("click", () => {
+          translateRegion(reader);
+        });
+        append(regionButton);
+      },
+      ADDON_ID,
+    );
+    log("Registered reader toolbar buttons");
+  } catch (e: any) {
+    error("Error registering reader toolbar button", e);
+  }
+}
+
+/**
+ * Add the translation history section to the item pane.
+ */
+function registerHistory(rootURI: string) {
+  const paneID = registerHistorySection(ADDON_ID, rootURI);
+  if (paneID) {
+    cleanupFns.push(() => unregisterHistorySection(paneID));
+    log("Registered translation history section");
+  }
+}
+
 function unregisterAll() {
   for (const fn of cleanupFns) {
     try {
@@ -166,6 +345,8 @@ function unregisterAll() {
 
   try {
     Zotero.Reader.unregisterEventListener("renderTextSelectionPopup", ADDON_ID);
+    Zotero.Reader.unregisterEventListener("createAnnotationContextMenu", ADDON_ID);
+    Zotero.Reader.unregisterEventListener("renderToolbar", ADDON_ID);
   } catch (e) {
     // May not exist or may already be cleaned up
   }
@@ -0,0 +1,117 @@
+/**
+ * AWS credential resolution for Bedrock IAM (SigV4) auth.
+ *
+ * Follows the standard chain, first match wins:
+ * 1. Access key / secret / session token set in preferences
+ * 2. AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN env vars
+ *    (skipped when a profile is explicitly configured)
+ * 3. Named profile in the shared credentials file (~/.aws/credentials)
+ */
+
+import { debug } from "./debug";
+import type { AwsCredentials } from "./sigv4";
+
+export interface AwsCredentialOptions {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken: string;
+  /** Profile name from preferences; empty means AWS_PROFILE or "default" */
+  profile: string;
+}
+
+function getEnv(name: string): string {
+  try {
+    return (Services.env.get(name) || "").trim();
+  } catch (e) {
+    return "";
+  }
+}
+
+function getSharedCredentialsPath(): string {
+  const custom = getEnv("AWS_SHARED_CREDENTIALS_FILE");
+  if (custom) return custom;
+  const file = Services.dirsvc.get("Home", Ci.nsIFile);
+  file.append(".aws");
+  file.append("credentials");
+  return file.path;
+}
+
+/**
+ * Parse an INI-style credentials file into { profile: { key: value } }.
+ */
+function parseIni(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const section = line.match(/^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/);
+    if (section) {
+      current = sections[section[1]] = sections[section[1]] || {};
+      continue;
+    }
+
+    const eq = line.indexOf("=");
+    if (current && eq > 0) {
+      current[line.substring(0, eq).trim().toLowerCase()] = line.substring(eq + 1).trim();
+    }
+  }
+  return sections;
+}
+
+function readProfile(profile: string): AwsCredentials | null {
+  const path = getSharedCredentialsPath();
+  try {
+    const file = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
+    file.initWithPath(path);
+    if (!file.exists()) {
+      debug(`AWS credentials file not found: ${path}`);
+      return null;
+    }
+    const section = parseIni(Zotero.File.getContents(file))[profile];
+    if (!section?.aws_access_key_id || !section?.aws_secret_access_key) {
+      debug(`AWS profile "${profile}" not found or incomplete in ${path}`);
+      return null;
+    }
+    return {
+      accessKeyId: section.aws_access_key_id,
+      secretAccessKey: section.aws_secret_access_key,
+      sessionToken: section.aws_session_token || null,
+    };
+  } catch (e) {
+    debug(`Failed to read AWS credentials file ${path}: ${e}`);
+    return null;
+  }
+}
+
+/**
+ * Resolve credentials through the chain. Returns null if nothing is configured.
+ */
+export function resolveAwsCredentials(options: AwsCredentialOptions): AwsCredentials | null {
+  if (options.accessKeyId && options.secretAccessKey) {
+    debug("Using AWS credentials from preferences");
+    return {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      sessionToken: options.sessionToken || null,
+    };
+  }
+
+  if (!options.profile) {
+    const accessKeyId = getEnv("AWS_ACCESS_KEY_ID");
+    const secretAccessKey = getEnv("AWS_SECRET_ACCESS_KEY");
+    if (accessKeyId && secretAccessKey) {
+      debug("Using AWS credentials from environment");
+      return { accessKeyId, secretAccessKey, sessionToken: getEnv("AWS_SESSION_TOKEN") || null };
+    }
+  }
+
+  const profile = options.profile || getEnv("AWS_PROFILE") || "default";
+  const fromFile = readProfile(profile);
+  if (fromFile) {
+    debug(`Using AWS credentials from profile "${profile}"`);
+  }
+  return fromFile;
+}
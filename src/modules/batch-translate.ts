@@ -0,0 +1,319 @@
+/**
+ * Batch translation - translates every highlight of a PDF in one go, from
+ * the item context menu or the reader's annotation context menu.
+ *
+ * - Translations go into the annotation comments or a generated child note
+ *   (`batch.target`), with up to `batch.concurrency` requests in flight
+ * - Progress is shown in a Zotero progress window, one line per PDF
+ * - Jobs are persisted as batch/jobs.json inside the wordbook directory
+ *   after every translation, so a run interrupted by closing Zotero picks
+ *   up where it stopped on the next start
+ */
+
+import { log, debug, error } from "./debug";
+import { translateText } from "./llm-service";
+import { CancelledError, createAbortController } from "./llm-stream";
+import { getAttachmentMetadata, toPaperSource } from "./paper-metadata";
+import { formatTranslation } from "./translation-result";
+import { getWordbookDir, joinPath } from "./wordbook";
+import { addCommentTranslation, hasCommentTranslation, writeHighlightsNote, type NoteEntry } from "./zotero-save";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+const JOBS_DIRNAME = "batch";
+const JOBS_FILENAME = "jobs.json";
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 8;
+/** Interrupted jobs resume this long after startup, once Zotero has settled */
+const RESUME_DELAY_MS = 10000;
+/** Annotation types that carry selected text */
+const TEXT_ANNOTATION_TYPES = ["highlight", "underline"];
+
+export type BatchTarget = "comment" | "note";
+
+interface BatchJob {
+  libraryID: number;
+  attachmentKey: string;
+  target: BatchTarget;
+  /** Translations finished so far, by annotation key */
+  done: Record<string, string>;
+  createdAt: string;
+}
+
+interface JobOutcome {
+  translated: number;
+  failed: number;
+  total: number;
+}
+
+let _jobs: BatchJob[] | null = null;
+let _running = false;
+let _controller: AbortController | null = null;
+let _resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getBatchTarget(): BatchTarget {
+  try {
+    if (Zotero.Prefs.get(`${PREF_PREFIX}.batch.target`, true) === "note") return "note";
+  } catch (e) {
+    // preference not set
+  }
+  return "comment";
+}
+
+function getConcurrency(): number {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.batch.concurrency`, true);
+    if (typeof val === "number" && val >= 1) return Math.min(val, MAX_CONCURRENCY);
+  } catch (e) {
+    // preference not set
+  }
+  return DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Run `task` on every item with at most `concurrency` in flight.
+ * Once `signal` aborts, no further items are started.
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal,
+  task: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal.aborted) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+function getJobsFile(): any {
+  const file = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
+  file.initWithPath(joinPath(getWordbookDir(), JOBS_DIRNAME, JOBS_FILENAME));
+  return file;
+}
+
+function loadJobs(): BatchJob[] {
+  if (_jobs) return _jobs;
+  _jobs = [];
+  try {
+    const file = getJobsFile();
+    if (file.exists()) {
+      const stored = JSON.parse(Zotero.File.getContents(file));
+      _jobs = (Array.isArray(stored?.jobs) ? stored.jobs : []).filter((job: any) =>
+        job && typeof job.attachmentKey === "string" && typeof job.libraryID === "number",
+      );
+    }
+  } catch (e) {
+    error("Failed to load batch jobs, starting empty", e);
+  }
+  return _jobs!;
+}
+
+function saveJobs(): void {
+  try {
+    const file = getJobsFile();
+    const dir = file.parent;
+    if (!dir.exists()) {
+      dir.create(Ci.nsIFile.DIRECTORY_TYPE, 0o755);
+    }
+    Zotero.File.putContents(file, JSON.stringify({ version: 1, jobs: loadJobs() }));
+  } catch (e) {
+    error("Failed to save batch jobs", e);
+  }
+}
+
+/**
+ * PDF attachments of the given items: the items themselves when they are
+ * PDFs, otherwise their PDF children.
+ */
+export function getPdfAttachments(items: any[]): any[] {
+  const found = new Map<number, any>();
+  for (const item of items) {
+    if (item.isPDFAttachment?.()) {
+      found.set(item.id, item);
+    } else if (item.isRegularItem?.()) {
+      for (const attachment of Zotero.Items.get(item.getAttachments())) {
+        if (attachment.isPDFAttachment()) found.set(attachment.id, attachment);
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Queue all highlights of the given items' PDFs for translation.
+ */
+export function translateHighlights(items: any[]): void {
+  const attachments = getPdfAttachments(items);
+  if (attachments.length === 0) {
+    showMessage("No PDF attachments to translate");
+    return;
+  }
+  const jobs = loadJobs();
+  const target = getBatchTarget();
+  for (const attachment of attachments) {
+    if (jobs.some((job) => job.libraryID === attachment.libraryID && job.attachmentKey === attachment.key)) continue;
+    jobs.push({ libraryID: attachment.libraryID, attachmentKey: attachment.key, target, done: {}, createdAt: new Date().toISOString() });
+  }
+  saveJobs();
+  log(`Queued highlight translation for ${attachments.length} PDF(s), writing to ${target}`);
+  runQueue();
+}
+
+/**
+ * Resume jobs left unfinished when Zotero was last closed.
+ */
+export function resumeBatchJobs(): void {
+  if (loadJobs().length === 0) return;
+  _resumeTimer = setTimeout(() => {
+    _resumeTimer = null;
+    log(`Resuming ${loadJobs().length} interrupted batch translation(s)`);
+    runQueue();
+  }, RESUME_DELAY_MS);
+}
+
+/**
+ * Stop the running batch (on shutdown); its progress stays on disk.
+ */
+export function cancelBatchJobs(): void {
+  if (_resumeTimer) {
+    clearTimeout(_resumeTimer);
+    _resumeTimer = null;
+  }
+  _controller?.abort();
+}
+
+function showMessage(text: string): void {
+  const progressWin = new Zotero.ProgressWindow({ closeOnClick: true });
+  progressWin.changeHeadline("Vibe Translate");
+  progressWin.addDescription(text);
+  progressWin.show();
+  progressWin.startCloseTimer(4000);
+}
+
+async function runQueue(): Promise<void> {
+  if (_running) return;
+  _running = true;
+  const controller = createAbortController();
+  _controller = controller;
+
+  const progressWin = new Zotero.ProgressWindow({ closeOnClick: false });
+  progressWin.changeHeadline("Vibe Translate: translating highlights");
+  progressWin.show();
+
+  try {
+    const jobs = loadJobs();
+    while (jobs.length > 0 && !controller.signal.aborted) {
+      const job = jobs[0];
+      const attachment = Zotero.Items.getByLibraryAndKey(job.libraryID, job.attachmentKey);
+      const title = attachment ? (attachment.parentItem || attachment).getDisplayTitle() : job.attachmentKey;
+      const line = new progressWin.ItemProgress(attachment?.getItemTypeIconName() || "attachmentPDF", title);
+
+      try {
+        if (!attachment) throw new Error("The PDF is no longer in the library");
+        const outcome = await runJob(job, attachment, controller.signal, (done, total) => {
+          line.setText(`${title} (${done}/${total})`);
+          line.setProgress(total > 0 ? (done / total) * 100 : 100);
+        });
+        if (controller.signal.aborted) break;
+        line.setProgress(100);
+        line.setText(outcome.total === 0
+          ? `${title}: no highlights`
+          : `${title}: ${outcome.translated} translated${outcome.failed ? `, ${outcome.failed} failed` : ""}`);
+        if (outcome.failed) line.setError();
+      } catch (e: any) {
+        if (controller.signal.aborted) break;
+        error(`Batch translation of ${job.attachmentKey} failed`, e);
+        line.setText(`${title}: ${e?.message || e}`);
+        line.setError();
+      }
+      jobs.shift();
+      saveJobs();
+    }
+    progressWin.changeHeadline(controller.signal.aborted ? "Vibe Translate: paused" : "Vibe Translate: highlights translated");
+    progressWin.startCloseTimer(8000);
+  } finally {
+    _running = false;
+    if (_controller === controller) _controller = null;
+  }
+}
+
+/**
+ * 1-based physical page of an annotation, as used in open-pdf links (its
+ * page label may be offset or not numeric at all).
+ */
+function getPageNumber(annotation: any): number | null {
+  try {
+    const pageIndex = JSON.parse(annotation.annotationPosition).pageIndex;
+    return typeof pageIndex === "number" ? pageIndex + 1 : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Translate the job's pending highlights with a small worker pool, then
+ * write the note (note target). Failed highlights are not retried within
+ * the run; running the command again picks them up.
+ */
+async function runJob(
+  job: BatchJob,
+  attachment: any,
+  signal: AbortSignal,
+  onProgress: (done: number, total: number) => void,
+): Promise<JobOutcome> {
+  const annotations: any[] = attachment.getAnnotations()
+    .filter((a: any) => TEXT_ANNOTATION_TYPES.includes(a.annotationType) && (a.annotationText || "").trim())
+    .sort((a: any, b: any) => (a.annotationSortIndex < b.annotationSortIndex ? -1 : 1));
+  const pending = annotations.filter((a) => {
+    if (a.key in job.done) return false;
+    // Annotations imported from the PDF file cannot be edited
+    return job.target === "note" || (!a.annotationIsExternal && !hasCommentTranslation(a));
+  });
+  const total = annotations.length;
+  const paper = getAttachmentMetadata(attachment);
+  debug(`Batch job ${job.attachmentKey}: ${pending.length} of ${total} highlight(s) to translate`);
+
+  let finished = total - pending.length;
+  let failed = 0;
+  onProgress(finished, total);
+
+  await runConcurrently(pending, getConcurrency(), signal, async (annotation) => {
+    try {
+      const { result } = await translateText({
+        text: annotation.annotationText.trim(),
+        pageScreenshot: null,
+        pageNumber: getPageNumber(annotation),
+        paper,
+        textContext: null,
+      }, undefined, { signal });
+      const translation = formatTranslation(result);
+      if (job.target === "comment") await addCommentTranslation(annotation, translation);
+      job.done[annotation.key] = translation;
+      saveJobs();
+    } catch (e: any) {
+      if (e instanceof CancelledError || signal.aborted) return;
+      failed++;
+      error(`Failed to translate annotation ${annotation.key}`, e);
+    }
+    onProgress(++finished, total);
+  });
+  if (signal.aborted) return { translated: 0, failed, total };
+
+  if (job.target === "note" && Object.keys(job.done).length > 0) {
+    if (!paper) throw new Error("Could not read the item of this PDF");
+    const entries: NoteEntry[] = annotations
+      .filter((a) => a.key in job.done)
+      .map((a) => ({
+        text: a.annotationText.trim(),
+        translation: job.done[a.key],
+        page: getPageNumber(a),
+        pageLabel: a.annotationPageLabel || null,
+      }));
+    await writeHighlightsNote(toPaperSource(paper), attachment.getDisplayTitle(), entries);
+  }
+  return { translated: Object.keys(job.done).length, failed, total };
+}
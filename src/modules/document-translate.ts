@@ -0,0 +1,415 @@
+/**
+ * Document translation - translates the current page or the whole PDF into
+ * a bilingual (side-by-side) result.
+ *
+ * - Text is read page by page from the reader's PDF document; when the
+ *   viewer is not available, from Zotero's fulltext extraction instead
+ * - Each page is split into chunks of at most `document.chunkChars`
+ *   characters (paragraphs are never merged across pages), translated with
+ *   the "document" prompt through translateText, so the translation cache,
+ *   retries and failover apply, with up to `document.concurrency` in flight
+ * - One document translation runs at a time, from reading the first page
+ *   until the result is written
+ * - The result is a child note of the item or an HTML file in the wordbook
+ *   directory (`document.output`), with a heading per page linking back to it
+ */
+
+import { log, debug, error } from "./debug";
+import { translateText } from "./llm-service";
+import { CancelledError, createAbortController } from "./llm-stream";
+import { getAttachmentMetadata, getOpenPdfURL, toPaperSource, type PaperMetadata } from "./paper-metadata";
+import { formatTranslation } from "./translation-result";
+import { getReaderWindows } from "./text-context";
+import { getWordbookDir, joinPath } from "./wordbook";
+import { writeBilingualNote, type BilingualRow } from "./zotero-save";
+import { getPdfAttachments, runConcurrently } from "./batch-translate";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+const OUTPUT_DIRNAME = "translations";
+const DEFAULT_CHUNK_CHARS = 3000;
+const MIN_CHUNK_CHARS = 500;
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 8;
+/** How long to wait for a freshly opened reader to load its PDF */
+const VIEWER_TIMEOUT_MS = 20000;
+/** A line this much shorter than the page's longest ends its paragraph */
+const SHORT_LINE_RATIO = 0.75;
+
+export type DocumentScope = "page" | "document";
+
+interface PageText {
+  /** 1-based; null when the text source has no page breaks */
+  pageNumber: number | null;
+  paragraphs: string[];
+}
+
+let _controller: AbortController | null = null;
+
+function getOutput(): "note" | "html" {
+  try {
+    if (Zotero.Prefs.get(`${PREF_PREFIX}.document.output`, true) === "html") return "html";
+  } catch (e) {
+    // preference not set
+  }
+  return "note";
+}
+
+function getChunkChars(): number {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.document.chunkChars`, true);
+    if (typeof val === "number" && val > 0) return Math.max(val, MIN_CHUNK_CHARS);
+  } catch (e) {
+    // preference not set
+  }
+  return DEFAULT_CHUNK_CHARS;
+}
+
+function getConcurrency(): number {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.document.concurrency`, true);
+    if (typeof val === "number" && val >= 1) return Math.min(val, MAX_CONCURRENCY);
+  } catch (e) {
+    // preference not set
+  }
+  return DEFAULT_CONCURRENCY;
+}
+
+/**
+ * pdf.js viewer application of the reader (lives in a nested iframe).
+ */
+function getPdfViewer(reader: any): any | null {
+  for (const win of getReaderWindows(reader)) {
+    try {
+      const app = (win.wrappedJSObject || win).PDFViewerApplication;
+      if (app?.pdfDocument) return app;
+    } catch (e) { /* try next window */ }
+  }
+  return null;
+}
+
+async function waitForPdfViewer(reader: any): Promise<any | null> {
+  const deadline = Date.now() + VIEWER_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const app = getPdfViewer(reader);
+    if (app) return app;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  return null;
+}
+
+/**
+ * Group text lines into paragraphs: a short line ending in sentence
+ * punctuation closes a paragraph. End-of-line hyphenation is undone.
+ */
+function toParagraphs(lines: string[]): string[] {
+  const longest = Math.max(0, ...lines.map((l) => l.length));
+  const paragraphs: string[] = [];
+  let current = "";
+  for (const line of lines) {
+    if (current.endsWith("-") && /^[a-z]/.test(line)) {
+      current = current.slice(0, -1) + line;
+    } else {
+      current = current ? `${current} ${line}` : line;
+    }
+    if (/[.!?:。！？]["')\]]*$/.test(line) && line.length < longest * SHORT_LINE_RATIO) {
+      paragraphs.push(current);
+      current = "";
+    }
+  }
+  if (current) paragraphs.push(current);
+  return paragraphs;
+}
+
+async function readPage(app: any, pageNumber: number): Promise<PageText> {
+  const page = await app.pdfDocument.getPage(pageNumber);
+  const content = await page.getTextContent();
+  const lines: string[] = [];
+  let line = "";
+  for (const item of content.items) {
+    line += item.str || "";
+    if (item.hasEOL) {
+      lines.push(line);
+      line = "";
+    }
+  }
+  lines.push(line);
+  return {
+    pageNumber,
+    paragraphs: toParagraphs(lines.map((l) => l.replace(/\s+/g, " ").trim()).filter((l) => l.length > 0)),
+  };
+}
+
+/**
+ * Text from Zotero's fulltext extraction. Pages are only known when the
+ * text contains form feeds.
+ */
+async function readFullText(attachment: any): Promise<PageText[]> {
+  const { text } = await Zotero.PDFWorker.getFullText(attachment.id, null);
+  const pages: string[] = (text || "").split("\f");
+  return pages.map((pageText, i) => ({
+    pageNumber: pages.length > 1 ? i + 1 : null,
+    paragraphs: pageText.split(/\n\s*\n/)
+      .map((block) => block.replace(/-\n(?=[a-z])/g, "").replace(/\s+/g, " ").trim())
+      .filter((block) => block.length > 0),
+  })).filter((page) => page.paragraphs.length > 0);
+}
+
+/**
+ * Pack a page's paragraphs into chunks of at most `maxChars`; longer
+ * paragraphs are split at sentence ends.
+ */
+function chunkPage(page: PageText, maxChars: number): string[] {
+  const pieces = page.paragraphs.flatMap((paragraph) => {
+    if (paragraph.length <= maxChars) return [paragraph];
+    const parts: string[] = [];
+    let current = "";
+    for (const sentence of paragraph.split(/(?<=[.!?。！？])\s+/)) {
+      if (current && current.length + sentence.length + 1 > maxChars) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) parts.push(current);
+    return parts;
+  });
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function buildHTML(title: string, paper: PaperMetadata | null, rows: BilingualRow[]): string {
+  const blocks = (text: string) => text.split(/\n{2,}/).map((p) => `<p>${escapeHTML(p)}</p>`).join("");
+  const pages = [...new Set(rows.map((row) => row.page))];
+  const toc = pages.filter((p) => p).map((p) => `<a href="#page-${p}">${p}</a>`).join(" ");
+  const body = pages.map((page) => {
+    const url = paper && getOpenPdfURL(paper, page);
+    const heading = page ? `Page ${page}` : "Full text";
+    return `<h2 id="page-${page || 0}">${heading}${url ? ` <a class="open" href="${escapeHTML(url)}">Open in Zotero ↗</a>` : ""}</h2>`
+      + rows.filter((row) => row.page === page)
+        .map((row) => `<div class="row"><div>${blocks(row.source)}</div><div>${blocks(row.translation)}</div></div>`)
+        .join("");
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHTML(title)}</title>
+<style>
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;max-width:1200px;margin:0 auto;padding:24px;color:#333;line-height:1.6}
+h1{font-size:22px}h2{font-size:16px;margin-top:32px;padding-bottom:4px;border-bottom:2px solid #667eea}
+.toc{font-size:13px;color:#888}.toc a,.open{color:#667eea;text-decoration:none;margin-right:6px}.open{font-size:12px;font-weight:normal;margin-left:8px}
+.row{display:grid;grid-template-columns:1fr 1fr;gap:24px;padding:8px 0;border-bottom:1px solid #eee}
+.row>div:first-child{color:#555}.row p{margin:0 0 8px}
+</style></head><body>
+<h1>${escapeHTML(title)}</h1>
+${toc ? `<div class="toc">Pages: ${toc}</div>` : ""}
+${body}
+</body></html>`;
+}
+
+function writeHTMLFile(attachment: any, scope: DocumentScope, html: string, pageNumber: number | null): string {
+  const dir = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
+  dir.initWithPath(joinPath(getWordbookDir(), OUTPUT_DIRNAME));
+  if (!dir.exists()) {
+    dir.create(Ci.nsIFile.DIRECTORY_TYPE, 0o755);
+  }
+  const name = `${attachment.key}${scope === "page" && pageNumber ? `-p${pageNumber}` : ""}.html`;
+  const path = joinPath(dir.path, name);
+  Zotero.File.putContents(Zotero.File.pathToFile(path), html);
+  return path;
+}
+
+function showMessage(text: string): void {
+  const progressWin = new Zotero.ProgressWindow({ closeOnClick: true });
+  progressWin.changeHeadline("Vibe Translate");
+  progressWin.addDescription(text);
+  progressWin.show();
+  progressWin.startCloseTimer(4000);
+}
+
+/**
+ * Take the document translation slot, or show a message and return null
+ * when a translation is already running. Free it with releaseController.
+ */
+function claimController(): AbortController | null {
+  if (_controller) {
+    showMessage("A document translation is already running");
+    return null;
+  }
+  _controller = createAbortController();
+  return _controller;
+}
+
+function releaseController(controller: AbortController): void {
+  if (_controller === controller) _controller = null;
+}
+
+/**
+ * Pages of the reader's PDF: the current one, or all of them (from
+ * Zotero's fulltext extraction when the viewer is not loaded). Stops
+ * reading once `signal` aborts.
+ */
+async function readReaderPages(reader: any, attachment: any, scope: DocumentScope, signal: AbortSignal): Promise<PageText[]> {
+  const app = getPdfViewer(reader);
+  if (scope === "page") {
+    if (!app) throw new Error("The PDF is not loaded yet");
+    return [await readPage(app, app.pdfViewer.currentPageNumber)];
+  }
+  if (!app) return readFullText(attachment);
+  const pages: PageText[] = [];
+  for (let n = 1; n <= app.pdfDocument.numPages && !signal.aborted; n++) {
+    pages.push(await readPage(app, n));
+  }
+  return pages;
+}
+
+/**
+ * Translate `pages` of `attachment` and write the bilingual result.
+ */
+async function translatePages(attachment: any, scope: DocumentScope, pages: PageText[], controller: AbortController): Promise<void> {
+  if (controller.signal.aborted) {
+    debug("Document translation cancelled");
+    return;
+  }
+  const paper = getAttachmentMetadata(attachment);
+  const docTitle = (attachment.parentItem || attachment).getDisplayTitle();
+  const pageNumber = scope === "page" ? pages[0]?.pageNumber ?? null : null;
+  const title = scope === "page" ? `Vibe Translate: ${docTitle}, page ${pageNumber}` : `Vibe Translate: ${docTitle}`;
+
+  const maxChars = getChunkChars();
+  const chunks = pages.flatMap((page) => chunkPage(page, maxChars).map((text) => ({ page: page.pageNumber, text })));
+  if (chunks.length === 0) {
+    showMessage(scope === "page" ? "No text on this page" : "No text found in this PDF");
+    return;
+  }
+
+  const progressWin = new Zotero.ProgressWindow({ closeOnClick: false });
+  progressWin.changeHeadline(scope === "page" ? `Vibe Translate: translating page ${pageNumber}` : "Vibe Translate: translating document");
+  const line = new progressWin.ItemProgress(attachment.getItemTypeIconName(), docTitle);
+  progressWin.show();
+  log(`Translating ${scope} of ${attachment.key}: ${chunks.length} chunk(s) from ${pages.length} page(s)`);
+
+  try {
+    const rows: BilingualRow[] = chunks.map((chunk) => ({ page: chunk.page, source: chunk.text, translation: "" }));
+    let finished = 0;
+    let failed = 0;
+    await runConcurrently(chunks, getConcurrency(), controller.signal, async (chunk, i) => {
+      try {
+        const { result } = await translateText({
+          text: chunk.text,
+          pageScreenshot: null,
+          pageNumber: chunk.page,
+          paper,
+          textContext: null,
+        }, undefined, { signal: controller.signal, kind: "document" });
+        rows[i].translation = formatTranslation(result);
+      } catch (e: any) {
+        if (e instanceof CancelledError || controller.signal.aborted) return;
+        failed++;
+        error(`Failed to translate chunk ${i + 1} of ${attachment.key}`, e);
+        rows[i].translation = `⚠ Translation failed: ${e?.message || e}`;
+      }
+      finished++;
+      line.setText(`${docTitle} (${finished}/${chunks.length})`);
+      line.setProgress((finished / chunks.length) * 100);
+    });
+    if (controller.signal.aborted) {
+      debug("Document translation cancelled");
+      return;
+    }
+
+    if (getOutput() === "html") {
+      const path = writeHTMLFile(attachment, scope, buildHTML(title, paper, rows), pageNumber);
+      line.setText(`${docTitle}: saved to ${path}`);
+      Zotero.launchFile(path);
+    } else {
+      if (!paper) throw new Error("Could not read the item of this PDF");
+      await writeBilingualNote(toPaperSource(paper), title, rows);
+      line.setText(`${docTitle}: saved to a child note`);
+    }
+    if (failed) line.setError();
+    progressWin.changeHeadline(failed ? `Vibe Translate: ${failed} chunk(s) failed` : "Vibe Translate: translation done");
+  } catch (e: any) {
+    error(`Document translation of ${attachment.key} failed`, e);
+    line.setText(`${docTitle}: ${e?.message || e}`);
+    line.setError();
+  } finally {
+    progressWin.startCloseTimer(8000);
+  }
+}
+
+/**
+ * Translate the reader's current page, or its whole document.
+ */
+export async function translateFromReader(reader: any, scope: DocumentScope): Promise<void> {
+  const attachment = Zotero.Items.get(reader?.itemID);
+  if (!attachment) return;
+  const controller = claimController();
+  if (!controller) return;
+  try {
+    const pages = await readReaderPages(reader, attachment, scope, controller.signal);
+    await translatePages(attachment, scope, pages, controller);
+  } catch (e: any) {
+    error("Failed to read PDF text", e);
+    showMessage(`Could not read the PDF text: ${e?.message || e}`);
+  } finally {
+    releaseController(controller);
+  }
+}
+
+/**
+ * Translate the whole document of the first PDF among `items`, opening it
+ * in the reader to read its pages.
+ */
+export async function translateDocument(items: any[]): Promise<void> {
+  const attachment = getPdfAttachments(items)[0];
+  if (!attachment) {
+    showMessage("No PDF attachment to translate");
+    return;
+  }
+  const controller = claimController();
+  if (!controller) return;
+  try {
+    let reader: any = null;
+    try {
+      reader = await Zotero.Reader.open(attachment.id);
+      if (reader && !await waitForPdfViewer(reader)) reader = null;
+    } catch (e) {
+      debug(`Could not open ${attachment.key} in the reader: ${e}`);
+      reader = null;
+    }
+    if (!reader) debug("PDF viewer not available, using fulltext extraction");
+    const pages = reader
+      ? await readReaderPages(reader, attachment, "document", controller.signal)
+      : await readFullText(attachment);
+    await translatePages(attachment, "document", pages, controller);
+  } catch (e: any) {
+    error("Failed to read PDF text", e);
+    showMessage(`Could not read the PDF text: ${e?.message || e}`);
+  } finally {
+    releaseController(controller);
+  }
+}
+
+/**
+ * Stop a running document translation (on shutdown).
+ */
+export function cancelDocumentTranslation(): void {
+  _controller?.abort();
+}
@@ -0,0 +1,136 @@
+/**
+ * Floating panel - makes the corner popup a panel that can be dragged by
+ * its title bar, resized from its bottom-right corner and pinned.
+ *
+ * - A pinned panel stays open on outside clicks, and every new selection
+ *   is translated into it instead of a new popup
+ * - Geometry is remembered per window type (main window, separate reader
+ *   windows) in the `panel.geometry` pref once the user moves or resizes
+ *   the panel; until then the preset corner is used
+ */
+
+import { debug, error } from "./debug";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+const MIN_WIDTH = 240;
+const MIN_HEIGHT = 120;
+/** Size of the native resize grip, for telling resizes from other clicks */
+const GRIP_SIZE = 16;
+
+export interface PanelGeometry {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+let _pinned = false;
+
+export function isPanelPinned(): boolean {
+  return _pinned;
+}
+
+export function setPanelPinned(pinned: boolean): void {
+  _pinned = pinned;
+  debug(`Floating panel ${pinned ? "pinned" : "unpinned"}`);
+}
+
+function getWindowKey(win: Window): string {
+  return win.document.documentElement?.getAttribute("windowtype") || "main";
+}
+
+function loadAllGeometry(): Record<string, PanelGeometry> {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.panel.geometry`, true);
+    const parsed = typeof val === "string" && val ? JSON.parse(val) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * The geometry saved for `win`, kept inside the window's current bounds.
+ */
+export function getSavedGeometry(win: Window): PanelGeometry | null {
+  const saved = loadAllGeometry()[getWindowKey(win)];
+  if (!saved || typeof saved.left !== "number" || typeof saved.width !== "number") return null;
+  const width = Math.min(Math.max(saved.width, MIN_WIDTH), win.innerWidth);
+  const height = Math.min(Math.max(saved.height, MIN_HEIGHT), win.innerHeight);
+  return {
+    left: Math.max(0, Math.min(saved.left, win.innerWidth - width)),
+    top: Math.max(0, Math.min(saved.top, win.innerHeight - height)),
+    width,
+    height,
+  };
+}
+
+function saveGeometry(win: Window, panel: HTMLElement): void {
+  try {
+    const rect = panel.getBoundingClientRect();
+    const all = loadAllGeometry();
+    all[getWindowKey(win)] = {
+      left: Math.round(rect.left),
+      top: Math.round(rect.top),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    };
+    Zotero.Prefs.set(`${PREF_PREFIX}.panel.geometry`, JSON.stringify(all), true);
+  } catch (e) {
+    error("Failed to save panel geometry", e);
+  }
+}
+
+/**
+ * Style rules that make `panel` resizable; combine with its position.
+ */
+export function getResizableStyle(): string {
+  return `resize: both; min-width: ${MIN_WIDTH}px; min-height: ${MIN_HEIGHT}px;`;
+}
+
+/**
+ * Let the user drag `panel` by `handle`, saving the geometry afterwards.
+ * Controls inside the handle (buttons, selects) keep working.
+ */
+export function makeDraggable(panel: HTMLElement, win: Window, handle: HTMLElement): void {
+  handle.style.cursor = "move";
+  handle.addEventListener("mousedown", (e: MouseEvent) => {
+    const target = e.target as Element;
+    if (e.button !== 0 || target.closest?.("button, select, input, a")) return;
+    e.preventDefault();
+    const rect = panel.getBoundingClientRect();
+    const offsetX = e.clientX - rect.left;
+    const offsetY = e.clientY - rect.top;
+
+    const onMove = (ev: MouseEvent) => {
+      panel.style.left = `${Math.max(0, Math.min(ev.clientX - offsetX, win.innerWidth - rect.width))}px`;
+      panel.style.top = `${Math.max(0, Math.min(ev.clientY - offsetY, win.innerHeight - rect.height))}px`;
+    };
+    const onUp = () => {
+      win.removeEventListener("mousemove", onMove, true);
+      win.removeEventListener("mouseup", onUp, true);
+      saveGeometry(win, panel);
+    };
+    win.addEventListener("mousemove", onMove, true);
+    win.addEventListener("mouseup", onUp, true);
+  });
+}
+
+/**
+ * Save the geometry whenever the user resizes `panel` from its corner
+ * (the panel needs the styles from getResizableStyle).
+ */
+export function makeResizable(panel: HTMLElement, win: Window): void {
+  panel.addEventListener("mousedown", (e: MouseEvent) => {
+    const rect = panel.getBoundingClientRect();
+    if (e.clientX < rect.right - GRIP_SIZE || e.clientY < rect.bottom - GRIP_SIZE) return;
+    // Resizing: the height is now the user's, not capped by the preset
+    panel.style.maxHeight = "none";
+    const onUp = () => {
+      win.removeEventListener("mouseup", onUp, true);
+      const after = panel.getBoundingClientRect();
+      if (after.width !== rect.width || after.height !== rect.height) saveGeometry(win, panel);
+    };
+    win.addEventListener("mouseup", onUp, true);
+  });
+}
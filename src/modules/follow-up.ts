@@ -0,0 +1,127 @@
+/**
+ * Follow-up chat - a question box under a finished translation.
+ *
+ * Each question is sent with the whole conversation so far (selection,
+ * screenshot, first answer, earlier turns; see askFollowUp), and the
+ * answer streams into the thread. The thread can be saved into the
+ * selection's wordbook entry; saving again updates the same thread.
+ */
+
+import { debug, error } from "./debug";
+import { askFollowUp, type FollowUpTurn, type TranslationInput } from "./llm-service";
+import { CancelledError, createAbortController } from "./llm-stream";
+import { createActionButton, createHtmlElement } from "./translation-view";
+import { saveThread } from "./wordbook";
+
+function createThreadId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
+}
+
+function renderTurn(doc: Document, question: string): { turn: HTMLElement; answer: HTMLElement } {
+  const turn = createHtmlElement(doc, "div");
+  turn.style.cssText = "margin-top: 6px;";
+  const questionEl = createHtmlElement(doc, "div");
+  questionEl.textContent = `❓ ${question}`;
+  questionEl.style.cssText = "font-weight: 600; white-space: pre-wrap; word-break: break-word;";
+  const answer = createHtmlElement(doc, "div");
+  answer.textContent = "Thinking...";
+  answer.style.cssText = "color: #888; font-style: italic; white-space: pre-wrap; word-break: break-word;";
+  turn.appendChild(questionEl);
+  turn.appendChild(answer);
+  return { turn, answer };
+}
+
+/**
+ * The follow-up box for a translated selection. `firstAnswer` is the
+ * model's raw answer to the translation request. `canSave` offers saving
+ * the thread, for selections that get a wordbook entry (not explanations
+ * or regions).
+ */
+export function createFollowUpBox(doc: Document, input: TranslationInput, firstAnswer: string, canSave: boolean): HTMLElement {
+  const turns: FollowUpTurn[] = [];
+  const threadId = createThreadId();
+  let controller: AbortController | null = null;
+
+  const box = createHtmlElement(doc, "div");
+  box.setAttribute("data-role", "follow-up");
+  box.style.cssText = "margin-top: 8px; padding-top: 6px; border-top: 1px solid #e0e0e0; white-space: normal;";
+
+  const thread = createHtmlElement(doc, "div");
+  box.appendChild(thread);
+
+  const form = createHtmlElement(doc, "div");
+  form.style.cssText = "display: flex; align-items: center; gap: 4px; margin-top: 6px;";
+  const field = createHtmlElement(doc, "input");
+  field.type = "text";
+  field.placeholder = "Ask a follow-up question…";
+  field.style.cssText = `
+    flex: 1;
+    min-width: 0;
+    font-size: 12px;
+    padding: 2px 6px;
+    border: 1px solid #d0d0d0;
+    border-radius: 4px;
+  `;
+  form.appendChild(field);
+
+  const saveButton = createActionButton(doc, "Save thread", "Save this conversation into the wordbook entry", (button) => {
+    const saved = saveThread(input.text, threadId, turns);
+    button.textContent = saved ? "✓ Saved" : "✗";
+    button.title = saved ? "Saved to the wordbook" : "This selection is not in the wordbook";
+  });
+  saveButton.style.display = "none";
+
+  const ask = () => {
+    const question = field.value.trim();
+    if (!question || controller) return;
+    field.value = "";
+    field.disabled = true;
+    const { turn, answer } = renderTurn(doc, question);
+    thread.appendChild(turn);
+    controller = createAbortController();
+    const signal = controller.signal;
+
+    askFollowUp(input, firstAnswer, turns, question, (partial) => {
+      if (!box.isConnected) {
+        // Popup closed: stop streaming
+        controller?.abort();
+        return;
+      }
+      answer.style.color = "#333";
+      answer.style.fontStyle = "normal";
+      answer.textContent = partial;
+    }, { signal }).then(({ text, provider }) => {
+      turns.push({ question, answer: text });
+      answer.style.color = "#333";
+      answer.style.fontStyle = "normal";
+      answer.textContent = text;
+      answer.title = `via ${provider}`;
+      if (canSave) saveButton.style.display = "";
+      saveButton.textContent = "Save thread";
+      debug(`Follow-up ${turns.length} answered by ${provider}`);
+    }).catch((e: any) => {
+      if (e instanceof CancelledError || signal.aborted) return;
+      error("Follow-up question failed", e);
+      answer.style.color = "#d32f2f";
+      answer.style.fontStyle = "normal";
+      answer.textContent = `⚠ Error: ${e?.message || e}`;
+    }).finally(() => {
+      controller = null;
+      field.disabled = false;
+      if (box.isConnected) field.focus();
+    });
+  };
+
+  field.addEventListener("keydown", (e: KeyboardEvent) => {
+    // Keep the reader's shortcuts away from what is typed here
+    e.stopPropagation();
+    if (e.key === "Enter" && !e.isComposing) {
+      e.preventDefault();
+      ask();
+    }
+  });
+  form.appendChild(createActionButton(doc, "Ask", "Ask about this selection (Enter)", () => ask()));
+  if (canSave) form.appendChild(saveButton);
+  box.appendChild(form);
+  return box;
+}
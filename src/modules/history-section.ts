@@ -0,0 +1,204 @@
+/**
+ * History section - an item pane section (also shown in the reader's side
+ * pane) listing the translations of the selected paper: this session's and
+ * earlier ones from the wordbook, followed by this session's translations
+ * elsewhere. Entries jump to their page, translate again or get pinned.
+ */
+
+import { debug, error } from "./debug";
+import { createActionButton, createHtmlElement } from "./translation-view";
+import { retranslateText } from "./translate";
+import {
+  getEntryKey,
+  getPaperHistory,
+  getSessionHistory,
+  isPinned,
+  onHistoryChange,
+  togglePin,
+  type HistoryEntry,
+} from "./translation-history";
+
+const PANE_ID = "vibe-translate-history";
+/** zotero-plugin-scaffold prefixes locale files and message IDs with the namespace */
+const FTL_FILE = "vibe-zotero-translate-addon.ftl";
+const L10N_PREFIX = "vibe-zotero-translate";
+const MAX_TEXT_CHARS = 80;
+const MAX_TRANSLATION_CHARS = 200;
+const MAX_ELSEWHERE_ENTRIES = 10;
+/** Time for the reader to render the page before its screenshot is taken */
+const NAVIGATE_DELAY_MS = 600;
+
+/** Unsubscribe functions of the rendered section bodies */
+const _subscriptions = new WeakMap<Element, () => void>();
+
+/**
+ * The paper a library item stands for: the parent of an attachment, or a
+ * standalone PDF itself. Null for notes and other items.
+ */
+function getPaperKey(item: any): { libraryID: number; key: string } | null {
+  if (!item) return null;
+  if (item.isRegularItem()) return { libraryID: item.libraryID, key: item.key };
+  if (item.isAttachment()) {
+    const paper = item.parentItem || (item.isPDFAttachment() ? item : null);
+    return paper ? { libraryID: paper.libraryID, key: paper.key } : null;
+  }
+  return null;
+}
+
+function clip(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? flat.substring(0, max) + "…" : flat;
+}
+
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString();
+}
+
+/**
+ * Open (or focus) the entry's PDF at its selection, or at least its page.
+ * Resolves to the reader, or null when the entry has no attachment.
+ */
+async function openAtSource(entry: HistoryEntry): Promise<any | null> {
+  const source = entry.paper;
+  if (!source?.attachmentKey) return null;
+  const attachment = Zotero.Items.getByLibraryAndKey(source.libraryID, source.attachmentKey);
+  if (!attachment) return null;
+  const location = entry.position && entry.position.rects.length > 0
+    ? { position: entry.position }
+    : entry.pageNumber ? { pageIndex: entry.pageNumber - 1 } : undefined;
+  return Zotero.Reader.open(attachment.id, location);
+}
+
+async function retranslate(entry: HistoryEntry): Promise<void> {
+  const reader = await openAtSource(entry);
+  if (!reader) {
+    debug("History entry has no PDF to translate from");
+    return;
+  }
+  setTimeout(() => retranslateText(entry.text, reader, entry.position), NAVIGATE_DELAY_MS);
+}
+
+function renderEntry(doc: Document, entry: HistoryEntry, showPaper: boolean): HTMLElement {
+  const row = createHtmlElement(doc, "div");
+  row.setAttribute("data-key", getEntryKey(entry));
+  row.style.cssText = "padding: 6px 0; border-bottom: 1px solid var(--fill-quinary, #eee);";
+  const pinned = isPinned(entry);
+  const canOpen = !!entry.paper?.attachmentKey;
+
+  const text = createHtmlElement(doc, "div");
+  text.textContent = (pinned ? "📌 " : "") + clip(entry.text, MAX_TEXT_CHARS);
+  text.title = canOpen ? "Show in the PDF" : entry.text;
+  text.style.cssText = `font-weight: 600; ${canOpen ? "cursor: pointer;" : ""}`;
+  if (canOpen) {
+    text.addEventListener("click", () => {
+      openAtSource(entry).catch((e) => error("Failed to open history entry", e));
+    });
+  }
+  row.appendChild(text);
+
+  const translation = createHtmlElement(doc, "div");
+  translation.textContent = clip(entry.translation, MAX_TRANSLATION_CHARS);
+  translation.title = entry.translation;
+  translation.style.cssText = "color: var(--fill-secondary, #555); margin: 2px 0;";
+  row.appendChild(translation);
+
+  const footer = createHtmlElement(doc, "div");
+  footer.style.cssText = "display: flex; align-items: center; gap: 4px; font-size: 11px; color: var(--fill-tertiary, #888);";
+  const meta = createHtmlElement(doc, "span");
+  meta.style.cssText = "flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;";
+  meta.textContent = [
+    entry.pageNumber ? `p. ${entry.pageNumber}` : "",
+    formatTime(entry.time),
+    showPaper ? entry.paper?.title || "" : "",
+  ].filter(Boolean).join(" · ");
+  footer.appendChild(meta);
+  if (canOpen) {
+    footer.appendChild(createActionButton(doc, "↻", "Translate again", () => {
+      retranslate(entry).catch((e) => error("Failed to translate history entry again", e));
+    }));
+  }
+  footer.appendChild(createActionButton(doc, pinned ? "Unpin" : "Pin", pinned ? "Unpin" : "Keep at the top", () => togglePin(entry)));
+  row.appendChild(footer);
+  return row;
+}
+
+function renderGroup(doc: Document, body: Element, title: string, entries: HistoryEntry[], showPaper: boolean): void {
+  const heading = createHtmlElement(doc, "div");
+  heading.textContent = title;
+  heading.style.cssText = "font-size: 11px; font-weight: 600; color: var(--fill-tertiary, #888); text-transform: uppercase; margin-top: 6px;";
+  body.appendChild(heading);
+  for (const entry of entries) {
+    body.appendChild(renderEntry(doc, entry, showPaper));
+  }
+}
+
+function render(body: Element, item: any, setSectionSummary: (summary: string) => void): void {
+  const doc = body.ownerDocument!;
+  while (body.firstChild) body.removeChild(body.firstChild);
+  const paper = getPaperKey(item);
+  if (!paper) return;
+
+  const entries = getPaperHistory(paper.libraryID, paper.key);
+  const elsewhere = getSessionHistory()
+    .filter((e) => !(e.paper?.libraryID === paper.libraryID && e.paper.itemKey === paper.key))
+    .slice(0, MAX_ELSEWHERE_ENTRIES);
+  setSectionSummary(entries.length ? String(entries.length) : "");
+
+  if (entries.length > 0) {
+    renderGroup(doc, body, "This paper", entries, false);
+  } else {
+    const empty = createHtmlElement(doc, "div");
+    empty.textContent = "No translations yet. Select text in the PDF to translate it.";
+    empty.style.cssText = "color: var(--fill-tertiary, #888); font-style: italic;";
+    body.appendChild(empty);
+  }
+  if (elsewhere.length > 0) {
+    renderGroup(doc, body, "Elsewhere this session", elsewhere, true);
+  }
+}
+
+/**
+ * Register the section. Returns its pane ID for unregistering, or null.
+ */
+export function registerHistorySection(pluginID: string, rootURI: string): string | null {
+  try {
+    Zotero.getMainWindow()?.MozXULElement?.insertFTLIfNeeded(FTL_FILE);
+    const icon = `${rootURI}content/icons/history.svg`;
+    const paneID = Zotero.ItemPaneManager.registerSection({
+      paneID: PANE_ID,
+      pluginID,
+      header: { l10nID: `${L10N_PREFIX}-history-header`, icon },
+      sidenav: { l10nID: `${L10N_PREFIX}-history-sidenav`, icon },
+      onInit: ({ body, refresh }: any) => {
+        _subscriptions.set(body, onHistoryChange(() => refresh()));
+      },
+      onDestroy: ({ body }: any) => {
+        _subscriptions.get(body)?.();
+        _subscriptions.delete(body);
+      },
+      onItemChange: ({ item, setEnabled }: any) => {
+        setEnabled(!!getPaperKey(item));
+        return true;
+      },
+      onRender: ({ body, item, setSectionSummary }: any) => {
+        render(body, item, setSectionSummary);
+      },
+    });
+    return paneID || null;
+  } catch (e) {
+    error("Error registering history section", e);
+    return null;
+  }
+}
+
+export function unregisterHistorySection(paneID: string): void {
+  try {
+    Zotero.ItemPaneManager.unregisterSection(paneID);
+  } catch (e) {
+    // already gone
+  }
+}
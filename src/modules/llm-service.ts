@@ -1,10 +1,47 @@
 /**
- * LLM Service - Supports Bedrock Converse API and OpenAI-compatible APIs.
- * Uses Zotero.HTTP.request() for all HTTP calls.
+ * LLM Service - Supports Bedrock Converse API, OpenAI-compatible APIs,
+ * the Anthropic Messages API, Google Gemini generateContent and a local
+ * Ollama server.
+ * Uses Zotero.HTTP.request() for buffered calls and fetch() for streaming.
  * No SDK dependencies.
  */
 
 import { debug } from "./debug";
+import {
+  ApiError,
+  CancelledError,
+  EventStreamDecoder,
+  JSONLinesDecoder,
+  SSEDecoder,
+  streamRequest,
+  TimeoutError,
+  type RequestOptions,
+} from "./llm-stream";
+import { signRequest, type AwsCredentials } from "./sigv4";
+import { resolveAwsCredentials } from "./aws-credentials";
+import {
+  classifyText,
+  getTemplate,
+  getTemplateVersion,
+  renderTemplate,
+  type PromptVariables,
+  type TemplateKind,
+} from "./prompt-templates";
+import { getContextMode, type TextContext } from "./text-context";
+import type { PaperMetadata } from "./paper-metadata";
+import { parseTranslation, type StructuredTranslation } from "./translation-result";
+import { getCachedTranslation, isCacheEnabled, putCachedTranslation, type CacheKeyParts } from "./translation-cache";
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  DEFAULT_TIMEOUT,
+  getActiveProfile,
+  loadProfiles,
+  readGenerationPrefs,
+  type BedrockAuthMode,
+  type GenerationSettings,
+  type ProviderProfile,
+} from "./profiles";
 
 const PREF_PREFIX = "extensions.vibe-zotero-translate";
 
@@ -12,6 +49,42 @@ export interface TranslationInput {
   text: string;
   pageScreenshot: string | null;
   pageNumber: number | null;
+  paper: PaperMetadata | null;
+  textContext: TextContext | null;
+}
+
+export interface TranslationResult {
+  /** The model's raw answer */
+  text: string;
+  /** The answer parsed into word / passage fields (or kept as raw text) */
+  result: StructuredTranslation;
+  /** Label of the provider that answered (provider name or profile name) */
+  provider: string;
+  /** True when served from the translation cache */
+  cached: boolean;
+}
+
+/** One message of a conversation with the model */
+export interface ChatMessage {
+  role: "user" | "assistant";
+  text: string;
+  /** Base64 data URL of an image sent along (the page screenshot) */
+  image?: string | null;
+}
+
+/** A follow-up question about a selection and the model's answer */
+export interface FollowUpTurn {
+  question: string;
+  answer: string;
+}
+
+export interface TranslateOptions {
+  /** Skip the cache lookup (the fresh result is still cached) */
+  bypassCache?: boolean;
+  /** Aborting cancels the in-flight request, pending retries and failover */
+  signal?: AbortSignal;
+  /** Template to use instead of the one picked from the text's length */
+  kind?: TemplateKind;
 }
 
 function getStringPref(key: string, defaultValue: string): string {
@@ -24,175 +97,317 @@ function getStringPref(key: string, defaultValue: string): string {
   return defaultValue;
 }
 
-function isSingleWord(text: string): boolean {
-  const trimmed = text.trim();
-  return (
-    !trimmed.includes(" ") &&
-    !trimmed.includes("\n") &&
-    !trimmed.includes("\t")
-  );
+function getBoolPref(key: string, defaultValue: boolean): boolean {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.${key}`, true);
+    if (typeof val === "boolean") return val;
+  } catch (e) {
+    // preference not set
+  }
+  return defaultValue;
+}
+
+function getIntPref(key: string, defaultValue: number): number {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.${key}`, true);
+    if (typeof val === "number" && Number.isFinite(val)) return val;
+  } catch (e) {
+    // preference not set
+  }
+  return defaultValue;
 }
 
-type Provider = "bedrock" | "openai";
+/**
+ * Receives each text fragment as the model streams it.
+ */
+export type DeltaCallback = (delta: string) => void;
 
-function getConfig() {
-  const provider = getStringPref("provider", "bedrock") as Provider;
+type Provider = "bedrock" | "openai" | "anthropic" | "google" | "ollama";
 
-  if (provider === "openai") {
-    const apiKey = getStringPref("openai.apiKey", "");
-    const modelId = getStringPref("openai.modelId", "gpt-4o");
-    const endpoint = getStringPref("openai.endpoint", "https://api.openai.com/v1/chat/completions");
+interface LLMConfig {
+  provider: Provider;
+  apiKey: string;
+  modelId: string;
+  /** AWS region (Bedrock only) */
+  region: string;
+  /** Bedrock only: "iam" signs requests with SigV4 instead of the API key */
+  authMode: BedrockAuthMode;
+  /** Request URL (OpenAI-compatible, Anthropic) or API base URL (Google, Ollama) */
+  endpoint: string;
+  /** IAM credentials when Bedrock uses SigV4 instead of an API key */
+  awsCredentials?: AwsCredentials;
+  temperature: number;
+  maxTokens: number;
+  /** Nucleus sampling; null leaves the provider default */
+  topP: number | null;
+  /** Request timeout in milliseconds, 0 = none */
+  timeoutMs: number;
+  /** Display label, e.g. the profile name */
+  label: string;
+}
 
-    if (!apiKey) {
-      throw new Error("OpenAI API key not configured. Please set it in Vibe Translate preferences.");
-    }
+const DEFAULT_OLLAMA_ENDPOINT = "http://localhost:11434";
 
-    return { provider, apiKey, modelId, region: "", openaiEndpoint: endpoint };
-  } else {
-    const apiKey = getStringPref("bedrock.apiKey", "");
-    const modelId = getStringPref("bedrock.modelId", "us.anthropic.claude-sonnet-4-5-20250929-v1:0");
-    const region = getStringPref("bedrock.region", "us-east-1");
+const PROVIDER_DEFAULTS: Record<Provider, { name: string; modelId: string; endpoint: string }> = {
+  bedrock: { name: "Bedrock", modelId: "us.anthropic.claude-sonnet-4-5-20250929-v1:0", endpoint: "" },
+  openai: { name: "OpenAI", modelId: "gpt-4o", endpoint: "https://api.openai.com/v1/chat/completions" },
+  anthropic: { name: "Anthropic", modelId: "claude-sonnet-4-5", endpoint: "https://api.anthropic.com/v1/messages" },
+  google: { name: "Google", modelId: "gemini-2.0-flash", endpoint: "https://generativelanguage.googleapis.com/v1beta" },
+  ollama: { name: "Ollama", modelId: "llava", endpoint: DEFAULT_OLLAMA_ENDPOINT },
+};
 
-    if (!apiKey) {
-      throw new Error("Bedrock API key not configured. Please set it in Vibe Translate preferences.");
-    }
+function toProvider(value: string): Provider {
+  return value in PROVIDER_DEFAULTS ? value as Provider : "bedrock";
+}
 
-    return { provider, apiKey, modelId, region, openaiEndpoint: "" };
-  }
+/**
+ * Local servers (Ollama, llama.cpp, LM Studio) usually run without auth.
+ */
+function isLocalEndpoint(url: string): boolean {
+  const match = url.match(/^https?:\/\/(\[[^\]]+\]|[^/:]+)/i);
+  if (!match) return false;
+  const host = match[1].toLowerCase();
+  return host === "localhost"
+    || host === "[::1]"
+    || host === "0.0.0.0"
+    || host.startsWith("127.")
+    || host.endsWith(".local");
 }
 
-// ============ Prompt Building ============
-
-function buildSystemPrompt(
-  targetLanguage: string,
-  singleWord: boolean,
-  hasScreenshot: boolean,
-): string {
-  const contextNote = hasScreenshot ? "\nA screenshot of the current PDF page is provided for context. Use it to improve translation accuracy for domain-specific terms." : "";
-
-  if (singleWord) {
-    return `You are an expert academic dictionary and translator. Translate the word to ${targetLanguage}.${contextNote}
-
-Output in this EXACT format (use 【】markers):
-
-【单词】 {the word}  【音标】 英 [British IPA] | 美 [American IPA]
-【释义】
-1. {part of speech}. {meaning in ${targetLanguage}}
-2. {part of speech}. {meaning in ${targetLanguage}}
-【例句】
-• EN: {example sentence in English}
-• ${targetLanguage}: {example sentence translated}
-${hasScreenshot ? "📌 {contextual meaning in this paper}" : ""}
-
-Example for "elaborate":
-【单词】 elaborate  【音标】 英 [ɪˈlæbərət] | 美 [ɪˈlæbərət]
-【释义】
-1. adj. 复杂的；详尽的；精心制作的
-2. v. 详细说明；阐述
-【例句】
-• EN: He refused to elaborate on why he had resigned.
-• 简体中文: 他拒绝详细说明辞职的原因。`;
+function isBedrockIamMode(): boolean {
+  return getStringPref("bedrock.authMode", "apiKey") === "iam";
+}
+
+/**
+ * Resolve IAM credentials for Bedrock configs in IAM mode and make sure
+ * every provider that needs a key has one. `source` names where to fix it.
+ */
+function withCredentials(config: LLMConfig, source: string): LLMConfig {
+  if (config.provider === "bedrock" && config.authMode === "iam") {
+    const awsCredentials = resolveAwsCredentials({
+      accessKeyId: getStringPref("bedrock.accessKeyId", ""),
+      secretAccessKey: getStringPref("bedrock.secretAccessKey", ""),
+      sessionToken: getStringPref("bedrock.sessionToken", ""),
+      profile: getStringPref("bedrock.profile", ""),
+    });
+    if (!awsCredentials) {
+      throw new Error("AWS credentials not found. Set an access key in Vibe Translate preferences, AWS_* environment variables, or a profile in ~/.aws/credentials.");
+    }
+    return { ...config, awsCredentials };
+  }
+
+  // Ollama needs no key; OpenAI-compatible local servers usually don't either
+  const keyOptional = config.provider === "ollama"
+    || (config.provider === "openai" && isLocalEndpoint(config.endpoint));
+  if (!config.apiKey && !keyOptional) {
+    throw new Error(`${PROVIDER_DEFAULTS[config.provider].name} API key not configured. Please set it in ${source}.`);
   }
+  return config;
+}
 
-  return `You are an expert academic translator. Translate the text to ${targetLanguage}.${contextNote}
+function toGenerationConfig(settings: GenerationSettings): Pick<LLMConfig, "temperature" | "maxTokens" | "topP" | "timeoutMs"> {
+  return {
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    topP: settings.topP,
+    timeoutMs: settings.timeout * 1000,
+  };
+}
 
-Output in this EXACT format (use 【】markers):
+/**
+ * Config from the flat `<provider>.*` prefs.
+ */
+function getPrefsConfig(): LLMConfig {
+  const provider = toProvider(getStringPref("provider", "bedrock"));
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const isBedrock = provider === "bedrock";
 
-【精准翻译】 {accurate translation into ${targetLanguage}}
-【核心句式】
-1. {grammar pattern}: {explanation in ${targetLanguage}}
-2. {grammar pattern}: {explanation in ${targetLanguage}}
-【重点词汇】
-1. {word} ({part of speech}): {meaning in ${targetLanguage}}
-2. {word} ({part of speech}): {meaning in ${targetLanguage}}
+  const authMode: BedrockAuthMode = isBedrock && isBedrockIamMode() ? "iam" : "apiKey";
 
-Example for "It is not how much we have, but how much we enjoy, that makes happiness.":
-【精准翻译】 决定幸福的不是我们拥有多少，而是我们享受多少。
-【核心句式】
-1. It is... that...: 强调句型。用于强调句子的某一部分（此处强调是由什么造就了幸福）。
-2. not..., but...: 连词结构。表示"不是……而是……"，连接两个并列成分，表示逻辑上的取舍。
-【重点词汇】
-1. enjoy (v.): 享受；欣赏
-2. happiness (n.): 幸福；快乐`;
+  return withCredentials({
+    provider,
+    // In IAM mode a leftover Bedrock API key must not take precedence
+    apiKey: authMode === "iam" ? "" : getStringPref(`${provider}.apiKey`, ""),
+    modelId: getStringPref(`${provider}.modelId`, defaults.modelId),
+    region: isBedrock ? getStringPref("bedrock.region", "us-east-1") : "",
+    authMode,
+    endpoint: isBedrock ? "" : getStringPref(`${provider}.endpoint`, defaults.endpoint),
+    ...toGenerationConfig(readGenerationPrefs(provider)),
+    label: defaults.name,
+  }, "Vibe Translate preferences");
 }
 
-// ============ Bedrock Converse API ============
+function getProfileConfig(profile: ProviderProfile): LLMConfig {
+  const provider = toProvider(profile.provider);
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const isBedrock = provider === "bedrock";
+  // Older profiles lack the mode: without a key only IAM can work
+  const authMode: BedrockAuthMode = isBedrock ? profile.authMode || (profile.apiKey ? "apiKey" : "iam") : "apiKey";
 
-function buildBedrockBody(
-  systemPrompt: string,
-  userText: string,
-  pageScreenshot: string | null,
-): any {
-  const userContent: any[] = [{ text: userText }];
-
-  if (pageScreenshot) {
-    debug(`pageScreenshot provided, length=${pageScreenshot.length}`);
-    const dataUrlMatch = pageScreenshot.match(
-      /^data:(image\/\w+);base64,(.+)$/,
-    );
-    if (dataUrlMatch) {
-      const format = dataUrlMatch[1].split("/")[1];
-      const base64Data = dataUrlMatch[2];
-      debug(`Image format: ${format}, base64 length: ${base64Data.length}`);
-      userContent.push({
-        image: {
-          format: format,
-          source: { bytes: base64Data },
-        },
-      });
-      debug(`Image added to Bedrock message (${userContent.length} parts)`);
-    }
-  } else {
-    debug("No pageScreenshot for Bedrock");
-  }
+  return withCredentials({
+    provider,
+    apiKey: authMode === "iam" ? "" : profile.apiKey || "",
+    modelId: profile.modelId || defaults.modelId,
+    region: isBedrock ? profile.region || "us-east-1" : "",
+    authMode,
+    endpoint: isBedrock ? "" : profile.endpoint || defaults.endpoint,
+    ...toGenerationConfig({
+      temperature: Number.isFinite(profile.temperature) ? profile.temperature : DEFAULT_TEMPERATURE,
+      maxTokens: profile.maxTokens > 0 ? profile.maxTokens : DEFAULT_MAX_TOKENS,
+      // Profiles saved before these settings existed lack them
+      topP: profile.topP ?? null,
+      timeout: profile.timeout ?? DEFAULT_TIMEOUT,
+    }),
+    label: profile.name,
+  }, `profile "${profile.name}"`);
+}
 
-  return {
-    system: [{ text: systemPrompt }],
-    messages: [{ role: "user", content: userContent }],
-    inferenceConfig: { maxTokens: 4096, temperature: 0.1 },
-  };
+/**
+ * Config of the active profile, or of the flat prefs if no profile is active.
+ */
+function getConfig(): LLMConfig {
+  const profile = getActiveProfile();
+  return profile ? getProfileConfig(profile) : getPrefsConfig();
 }
 
-async function callBedrock(
-  modelId: string,
-  requestBody: any,
-): Promise<string> {
-  const { apiKey, region } = getConfig();
+// ============ HTTP Helpers ============
 
-  const url = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(modelId)}/converse`;
-  const body = JSON.stringify(requestBody);
+/**
+ * POST a JSON body via Zotero.HTTP.request() and return the parsed response.
+ * The body may be pre-serialized (needed when it has been signed).
+ * Non-2xx responses are raised as ApiError with the provider label;
+ * aborting the signal cancels the XHR and raises CancelledError, and
+ * exceeding options.timeout raises TimeoutError.
+ */
+async function postJSON(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  requestBody: any,
+  options: RequestOptions = {},
+): Promise<any> {
+  const { signal, timeout = 0 } = options;
+  const body = typeof requestBody === "string" ? requestBody : JSON.stringify(requestBody);
 
-  debug(`Bedrock URL: ${url}`);
+  debug(`${label} URL: ${url}`);
   debug(`Request body length: ${body.length}`);
 
+  if (signal?.aborted) throw new CancelledError(label);
+
   let xhr: any;
   try {
     xhr = await Zotero.HTTP.request("POST", url, {
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
+      headers: { "Content-Type": "application/json", ...headers },
       body,
       responseType: "text",
+      timeout,
+      cancellerReceiver: signal
+        ? (cancel: () => void) => signal.addEventListener("abort", cancel, { once: true })
+        : undefined,
     });
   } catch (e: any) {
+    if (signal?.aborted) throw new CancelledError(label);
+    const TimeoutException = Zotero.HTTP.TimeoutException;
+    if (TimeoutException && e instanceof TimeoutException) {
+      debug(`${label} request timed out after ${timeout}ms`);
+      throw new TimeoutError(label, timeout);
+    }
     if (e && e.xmlhttp) {
       const status = e.xmlhttp.status;
       const responseText = e.xmlhttp.responseText || "";
-      debug(`Bedrock HTTP error: status=${status}`);
-      debug(`Bedrock error response: ${responseText.substring(0, 500)}`);
-      throw new Error(`Bedrock API error (${status}): ${responseText.substring(0, 500)}`);
+      debug(`${label} HTTP error: status=${status}`);
+      debug(`${label} error response: ${responseText.substring(0, 500)}`);
+      throw new ApiError(`${label} API error (${status}): ${responseText.substring(0, 500)}`, status);
     }
-    throw new Error(`HTTP request failed: ${e.message || String(e)}`);
+    throw new ApiError(`HTTP request failed: ${e.message || String(e)}`, null);
   }
 
   if (xhr.status !== 200) {
     const errText = xhr.responseText || xhr.response || "";
-    throw new Error(`Bedrock API error (${xhr.status}): ${String(errText).substring(0, 500)}`);
+    throw new ApiError(`${label} API error (${xhr.status}): ${String(errText).substring(0, 500)}`, xhr.status);
   }
 
-  const response = typeof xhr.response === "string" ? JSON.parse(xhr.response) : xhr.response;
-  debug("Bedrock response received");
+  debug(`${label} response received`);
+  return typeof xhr.response === "string" ? JSON.parse(xhr.response) : xhr.response;
+}
+
+/**
+ * Bearer auth header, omitted when no key is configured (keyless local servers).
+ */
+function bearerAuth(config: LLMConfig): Record<string, string> {
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+}
+
+/**
+ * Split a data URL into its media type and base64 payload.
+ */
+function parseDataUrl(dataUrl: string): { mediaType: string; base64: string } | null {
+  const match = dataUrl.match(/^data:(image\/\w+);base64,(.+)$/);
+  return match ? { mediaType: match[1], base64: match[2] } : null;
+}
+
+// ============ Bedrock Converse API ============
+
+function buildBedrockBody(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  config: LLMConfig,
+): any {
+  return {
+    system: [{ text: systemPrompt }],
+    messages: messages.map((message) => {
+      const content: any[] = [{ text: message.text }];
+      const image = message.image ? parseDataUrl(message.image) : null;
+      if (image) {
+        const format = image.mediaType.split("/")[1];
+        debug(`Image added to Bedrock message (format: ${format}, base64 length: ${image.base64.length})`);
+        content.push({
+          image: {
+            format: format,
+            source: { bytes: image.base64 },
+          },
+        });
+      }
+      return { role: message.role, content };
+    }),
+    inferenceConfig: {
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      ...(config.topP !== null ? { topP: config.topP } : {}),
+    },
+  };
+}
+
+function getBedrockUrl(config: LLMConfig, operation: "converse" | "converse-stream"): string {
+  return `https://bedrock-runtime.${config.region}.amazonaws.com/model/${encodeURIComponent(config.modelId)}/${operation}`;
+}
+
+/**
+ * Auth headers for a Bedrock call: SigV4 when IAM credentials are configured,
+ * otherwise the Bedrock API key as a bearer token.
+ */
+function getBedrockAuthHeaders(config: LLMConfig, url: string, body: string): Record<string, string> {
+  if (config.awsCredentials) {
+    return signRequest({
+      method: "POST",
+      url,
+      body,
+      region: config.region,
+      service: "bedrock",
+      credentials: config.awsCredentials,
+    });
+  }
+  return { Authorization: `Bearer ${config.apiKey}` };
+}
+
+async function callBedrock(
+  config: LLMConfig,
+  requestBody: any,
+  signal?: AbortSignal,
+): Promise<string> {
+  const url = getBedrockUrl(config, "converse");
+  const body = JSON.stringify(requestBody);
+  const response = await postJSON("Bedrock", url, getBedrockAuthHeaders(config, url, body), body, { signal, timeout: config.timeoutMs });
 
   if (response?.output?.message?.content) {
     return response.output.message.content
@@ -204,154 +419,863 @@ async function callBedrock(
   throw new Error("Unexpected Bedrock response: " + JSON.stringify(response));
 }
 
+async function callBedrockStream(
+  config: LLMConfig,
+  requestBody: any,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  const url = getBedrockUrl(config, "converse-stream");
+  debug(`Bedrock stream URL: ${url}`);
+
+  const decoder = new EventStreamDecoder();
+  const body = JSON.stringify(requestBody);
+  let text = "";
+
+  await streamRequest(
+    "Bedrock",
+    url,
+    {
+      "Content-Type": "application/json",
+      Accept: "application/vnd.amazon.eventstream",
+      ...getBedrockAuthHeaders(config, url, body),
+    },
+    body,
+    (bytes) => {
+      for (const message of decoder.push(bytes)) {
+        const messageType = message.headers[":message-type"];
+        if (messageType === "exception" || messageType === "error") {
+          const errType = message.headers[":exception-type"] || message.headers[":error-code"] || "error";
+          throw new Error(`Bedrock stream ${errType}: ${message.payload.substring(0, 500)}`);
+        }
+        if (message.headers[":event-type"] !== "contentBlockDelta") continue;
+        const delta = JSON.parse(message.payload)?.delta?.text;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    },
+    { signal, timeout: config.timeoutMs },
+  );
+
+  debug(`Bedrock stream finished (${text.length} chars)`);
+  return text;
+}
+
 // ============ OpenAI-Compatible API ============
 
 function buildOpenAIBody(
   systemPrompt: string,
-  userText: string,
-  pageScreenshot: string | null,
-  modelId: string,
+  messages: ChatMessage[],
+  config: LLMConfig,
 ): any {
-  const userContent: any[] = [{ type: "text", text: userText }];
+  return {
+    model: config.modelId,
+    messages: [
+      { role: "system", content: systemPrompt },
+      ...messages.map((message) => {
+        if (message.role === "assistant") return { role: message.role, content: message.text };
+        const content: any[] = [{ type: "text", text: message.text }];
+        if (message.image) {
+          content.push({
+            type: "image_url",
+            image_url: { url: message.image },
+          });
+          debug(`Image added to OpenAI message, length=${message.image.length}`);
+        }
+        return { role: message.role, content };
+      }),
+    ],
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    ...(config.topP !== null ? { top_p: config.topP } : {}),
+  };
+}
 
-  if (pageScreenshot) {
-    debug(`pageScreenshot provided for OpenAI, length=${pageScreenshot.length}`);
-    userContent.push({
-      type: "image_url",
-      image_url: { url: pageScreenshot },
-    });
-    debug(`Image added to OpenAI message (${userContent.length} parts)`);
-  } else {
-    debug("No pageScreenshot for OpenAI");
+/**
+ * Normalize endpoint - remove trailing slash, append /chat/completions if not present
+ */
+function getOpenAIUrl(config: LLMConfig): string {
+  let url = config.endpoint.replace(/\/+$/, "");
+  if (!url.endsWith("/chat/completions")) {
+    url += "/chat/completions";
+  }
+  return url;
+}
+
+async function callOpenAI(
+  config: LLMConfig,
+  requestBody: any,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await postJSON(
+    "OpenAI",
+    getOpenAIUrl(config),
+    bearerAuth(config),
+    requestBody,
+    { signal, timeout: config.timeoutMs },
+  );
+
+  if (response?.choices?.[0]?.message?.content) {
+    return response.choices[0].message.content;
   }
 
+  throw new Error("Unexpected OpenAI response: " + JSON.stringify(response));
+}
+
+async function callOpenAIStream(
+  config: LLMConfig,
+  requestBody: any,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  const url = getOpenAIUrl(config);
+  debug(`OpenAI stream URL: ${url}`);
+
+  const decoder = new SSEDecoder();
+  let text = "";
+
+  await streamRequest(
+    "OpenAI",
+    url,
+    {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...bearerAuth(config),
+    },
+    JSON.stringify({ ...requestBody, stream: true }),
+    (bytes) => {
+      for (const event of decoder.push(bytes)) {
+        if (event.data === "[DONE]") continue;
+        const chunk = JSON.parse(event.data);
+        if (chunk?.error) {
+          throw new Error(`OpenAI stream error: ${JSON.stringify(chunk.error).substring(0, 500)}`);
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    },
+    { signal, timeout: config.timeoutMs },
+  );
+
+  debug(`OpenAI stream finished (${text.length} chars)`);
+  return text;
+}
+
+// ============ Anthropic Messages API ============
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function buildAnthropicBody(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  config: LLMConfig,
+): any {
+  return {
+    model: config.modelId,
+    system: systemPrompt,
+    messages: messages.map((message) => {
+      const content: any[] = [{ type: "text", text: message.text }];
+      const image = message.image ? parseDataUrl(message.image) : null;
+      if (image) {
+        content.push({
+          type: "image",
+          source: { type: "base64", media_type: image.mediaType, data: image.base64 },
+        });
+        debug(`Image added to Anthropic message (${image.mediaType})`);
+      }
+      return { role: message.role, content };
+    }),
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    ...(config.topP !== null ? { top_p: config.topP } : {}),
+  };
+}
+
+function getAnthropicHeaders(config: LLMConfig): Record<string, string> {
   return {
-    model: modelId,
+    "x-api-key": config.apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+  };
+}
+
+async function callAnthropic(
+  config: LLMConfig,
+  requestBody: any,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await postJSON("Anthropic", config.endpoint, getAnthropicHeaders(config), requestBody, { signal, timeout: config.timeoutMs });
+
+  if (Array.isArray(response?.content)) {
+    return response.content
+      .filter((part: any) => part.type === "text")
+      .map((part: any) => part.text)
+      .join("\n");
+  }
+
+  throw new Error("Unexpected Anthropic response: " + JSON.stringify(response));
+}
+
+async function callAnthropicStream(
+  config: LLMConfig,
+  requestBody: any,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  debug(`Anthropic stream URL: ${config.endpoint}`);
+
+  const decoder = new SSEDecoder();
+  let text = "";
+
+  await streamRequest(
+    "Anthropic",
+    config.endpoint,
+    {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...getAnthropicHeaders(config),
+    },
+    JSON.stringify({ ...requestBody, stream: true }),
+    (bytes) => {
+      for (const event of decoder.push(bytes)) {
+        const chunk = JSON.parse(event.data);
+        if (chunk?.type === "error") {
+          throw new Error(`Anthropic stream error: ${JSON.stringify(chunk.error).substring(0, 500)}`);
+        }
+        if (chunk?.type !== "content_block_delta" || chunk.delta?.type !== "text_delta") continue;
+        const delta = chunk.delta.text;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    },
+    { signal, timeout: config.timeoutMs },
+  );
+
+  debug(`Anthropic stream finished (${text.length} chars)`);
+  return text;
+}
+
+// ============ Google Gemini API ============
+
+function buildGoogleBody(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  config: LLMConfig,
+): any {
+  return {
+    systemInstruction: { parts: [{ text: systemPrompt }] },
+    contents: messages.map((message) => {
+      const parts: any[] = [{ text: message.text }];
+      const image = message.image ? parseDataUrl(message.image) : null;
+      if (image) {
+        parts.push({
+          inlineData: { mimeType: image.mediaType, data: image.base64 },
+        });
+        debug(`Image added to Google message (${image.mediaType})`);
+      }
+      // Gemini calls the assistant "model"
+      return { role: message.role === "assistant" ? "model" : "user", parts };
+    }),
+    generationConfig: {
+      maxOutputTokens: config.maxTokens,
+      temperature: config.temperature,
+      ...(config.topP !== null ? { topP: config.topP } : {}),
+    },
+  };
+}
+
+function getGoogleUrl(config: LLMConfig, method: "generateContent" | "streamGenerateContent"): string {
+  const base = config.endpoint.replace(/\/+$/, "");
+  const url = `${base}/models/${encodeURIComponent(config.modelId)}:${method}`;
+  return method === "streamGenerateContent" ? `${url}?alt=sse` : url;
+}
+
+/**
+ * Join the text parts of a GenerateContentResponse (full or streamed chunk).
+ */
+function extractGoogleText(response: any): string {
+  const parts = response?.candidates?.[0]?.content?.parts;
+  if (!Array.isArray(parts)) return "";
+  return parts
+    .filter((part: any) => typeof part.text === "string")
+    .map((part: any) => part.text)
+    .join("");
+}
+
+async function callGoogle(
+  config: LLMConfig,
+  requestBody: any,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await postJSON(
+    "Google",
+    getGoogleUrl(config, "generateContent"),
+    { "x-goog-api-key": config.apiKey },
+    requestBody,
+    { signal, timeout: config.timeoutMs },
+  );
+
+  if (Array.isArray(response?.candidates?.[0]?.content?.parts)) {
+    return extractGoogleText(response);
+  }
+
+  // Blocked prompts come back as 200 with promptFeedback and no candidates
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new Error(`Google request blocked: ${blockReason}`);
+  }
+
+  throw new Error("Unexpected Google response: " + JSON.stringify(response));
+}
+
+async function callGoogleStream(
+  config: LLMConfig,
+  requestBody: any,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  const url = getGoogleUrl(config, "streamGenerateContent");
+  debug(`Google stream URL: ${url}`);
+
+  const decoder = new SSEDecoder();
+  let text = "";
+
+  await streamRequest(
+    "Google",
+    url,
+    {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      "x-goog-api-key": config.apiKey,
+    },
+    JSON.stringify(requestBody),
+    (bytes) => {
+      for (const event of decoder.push(bytes)) {
+        const chunk = JSON.parse(event.data);
+        if (chunk?.error) {
+          throw new Error(`Google stream error: ${JSON.stringify(chunk.error).substring(0, 500)}`);
+        }
+        const delta = extractGoogleText(chunk);
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    },
+    { signal, timeout: config.timeoutMs },
+  );
+
+  debug(`Google stream finished (${text.length} chars)`);
+  return text;
+}
+
+// ============ Ollama Native API ============
+
+function buildOllamaBody(
+  systemPrompt: string,
+  messages: ChatMessage[],
+  config: LLMConfig,
+): any {
+  return {
+    model: config.modelId,
     messages: [
       { role: "system", content: systemPrompt },
-      { role: "user", content: userContent },
+      ...messages.map((message) => {
+        const ollamaMessage: any = { role: message.role, content: message.text };
+        const image = message.image ? parseDataUrl(message.image) : null;
+        if (image) {
+          // Vision models (llava, llama3.2-vision, ...) take raw base64 images
+          ollamaMessage.images = [image.base64];
+          debug("Image added to Ollama message");
+        }
+        return ollamaMessage;
+      }),
     ],
-    max_tokens: 4096,
-    temperature: 0.1,
+    stream: false,
+    options: {
+      num_predict: config.maxTokens,
+      temperature: config.temperature,
+      ...(config.topP !== null ? { top_p: config.topP } : {}),
+    },
   };
 }
 
-async function callOpenAI(
-  modelId: string,
+function getOllamaBaseUrl(endpoint: string): string {
+  return (endpoint || DEFAULT_OLLAMA_ENDPOINT).replace(/\/+$/, "").replace(/\/api(\/chat)?$/, "");
+}
+
+async function callOllama(
+  config: LLMConfig,
   requestBody: any,
+  signal?: AbortSignal,
 ): Promise<string> {
-  const { apiKey, openaiEndpoint } = getConfig();
+  const response = await postJSON(
+    "Ollama",
+    `${getOllamaBaseUrl(config.endpoint)}/api/chat`,
+    bearerAuth(config),
+    requestBody,
+    { signal, timeout: config.timeoutMs },
+  );
 
-  // Normalize endpoint - remove trailing slash, append /chat/completions if not present
-  let url = openaiEndpoint.replace(/\/+$/, "");
-  if (!url.endsWith("/chat/completions")) {
-    url += "/chat/completions";
+  if (typeof response?.message?.content === "string") {
+    return response.message.content;
   }
 
-  const body = JSON.stringify(requestBody);
+  throw new Error("Unexpected Ollama response: " + JSON.stringify(response));
+}
 
-  debug(`OpenAI URL: ${url}`);
-  debug(`Request body length: ${body.length}`);
+async function callOllamaStream(
+  config: LLMConfig,
+  requestBody: any,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  const url = `${getOllamaBaseUrl(config.endpoint)}/api/chat`;
+  debug(`Ollama stream URL: ${url}`);
+
+  const decoder = new JSONLinesDecoder();
+  let text = "";
+
+  await streamRequest(
+    "Ollama",
+    url,
+    { "Content-Type": "application/json", ...bearerAuth(config) },
+    JSON.stringify({ ...requestBody, stream: true }),
+    (bytes) => {
+      for (const chunk of decoder.push(bytes)) {
+        if (chunk?.error) {
+          throw new Error(`Ollama stream error: ${String(chunk.error).substring(0, 500)}`);
+        }
+        const delta = chunk?.message?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    },
+    { signal, timeout: config.timeoutMs },
+  );
+
+  debug(`Ollama stream finished (${text.length} chars)`);
+  return text;
+}
+
+/**
+ * List the models installed on an Ollama server via /api/tags.
+ * Defaults to the configured endpoint; used by the preferences pane.
+ */
+export async function listOllamaModels(endpoint?: string): Promise<string[]> {
+  const base = getOllamaBaseUrl(endpoint || getStringPref("ollama.endpoint", DEFAULT_OLLAMA_ENDPOINT));
+  const url = `${base}/api/tags`;
+  debug(`Listing Ollama models: ${url}`);
 
   let xhr: any;
   try {
-    xhr = await Zotero.HTTP.request("POST", url, {
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body,
-      responseType: "text",
-    });
+    xhr = await Zotero.HTTP.request("GET", url, { responseType: "text" });
   } catch (e: any) {
-    if (e && e.xmlhttp) {
-      const status = e.xmlhttp.status;
-      const responseText = e.xmlhttp.responseText || "";
-      debug(`OpenAI HTTP error: status=${status}`);
-      debug(`OpenAI error response: ${responseText.substring(0, 500)}`);
-      throw new Error(`OpenAI API error (${status}): ${responseText.substring(0, 500)}`);
+    if (e && e.xmlhttp && e.xmlhttp.status) {
+      throw new ApiError(`Ollama API error (${e.xmlhttp.status}): ${String(e.xmlhttp.responseText || "").substring(0, 500)}`, e.xmlhttp.status);
     }
-    throw new Error(`HTTP request failed: ${e.message || String(e)}`);
-  }
-
-  if (xhr.status !== 200) {
-    const errText = xhr.responseText || xhr.response || "";
-    throw new Error(`OpenAI API error (${xhr.status}): ${String(errText).substring(0, 500)}`);
+    throw new Error(`Cannot reach Ollama at ${base}: ${e.message || String(e)}`);
   }
 
   const response = typeof xhr.response === "string" ? JSON.parse(xhr.response) : xhr.response;
-  debug("OpenAI response received");
+  const models: string[] = (response?.models || [])
+    .map((m: any) => m.name || m.model)
+    .filter((name: any) => typeof name === "string" && name.length > 0);
+  debug(`Found ${models.length} Ollama models`);
+  return models.sort((a, b) => a.localeCompare(b));
+}
 
-  if (response?.choices?.[0]?.message?.content) {
-    return response.choices[0].message.content;
-  }
+// ============ Unified Translation ============
 
-  throw new Error("Unexpected OpenAI response: " + JSON.stringify(response));
+/**
+ * Whether a failed streaming call should be retried without streaming.
+ * Auth and throttling errors would fail the same way, so they are rethrown.
+ */
+function shouldFallbackFromStream(e: any): boolean {
+  // A non-streaming retry would only make the user wait twice as long
+  if (e instanceof TimeoutError) return false;
+  if (e instanceof ApiError && e.status !== null) {
+    return ![401, 403, 429].includes(e.status);
+  }
+  return true;
 }
 
-// ============ Unified Translation ============
+function callModelStream(
+  config: LLMConfig,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  onDelta: DeltaCallback,
+  signal?: AbortSignal,
+): Promise<string> {
+  switch (config.provider) {
+    case "openai":
+      return callOpenAIStream(config, buildOpenAIBody(systemPrompt, messages, config), onDelta, signal);
+    case "anthropic":
+      return callAnthropicStream(config, buildAnthropicBody(systemPrompt, messages, config), onDelta, signal);
+    case "google":
+      return callGoogleStream(config, buildGoogleBody(systemPrompt, messages, config), onDelta, signal);
+    case "ollama":
+      return callOllamaStream(config, buildOllamaBody(systemPrompt, messages, config), onDelta, signal);
+    case "bedrock":
+      return callBedrockStream(config, buildBedrockBody(systemPrompt, messages, config), onDelta, signal);
+    default:
+      throw new Error(`Unknown provider: ${config.provider}`);
+  }
+}
 
 async function callModel(
+  config: LLMConfig,
   systemPrompt: string,
-  userText: string,
-  pageScreenshot: string | null,
+  messages: ChatMessage[],
+  onDelta?: DeltaCallback,
+  signal?: AbortSignal,
 ): Promise<string> {
-  const { provider, modelId } = getConfig();
-
-  if (provider === "openai") {
-    const requestBody = buildOpenAIBody(systemPrompt, userText, pageScreenshot, modelId);
-    return callOpenAI(modelId, requestBody);
-  } else {
-    const requestBody = buildBedrockBody(systemPrompt, userText, pageScreenshot);
-    return callBedrock(modelId, requestBody);
+  if (onDelta && getBoolPref("stream", true)) {
+    let received = false;
+    const trackedDelta: DeltaCallback = (delta) => {
+      received = true;
+      onDelta(delta);
+    };
+    try {
+      return await callModelStream(config, systemPrompt, messages, trackedDelta, signal);
+    } catch (e: any) {
+      // Once text has been painted, a silent restart would duplicate output
+      if (received || signal?.aborted || !shouldFallbackFromStream(e)) throw e;
+      debug(`Streaming failed, falling back to non-streaming request: ${e?.message || e}`);
+    }
+  }
+
+  switch (config.provider) {
+    case "openai":
+      return callOpenAI(config, buildOpenAIBody(systemPrompt, messages, config), signal);
+    case "anthropic":
+      return callAnthropic(config, buildAnthropicBody(systemPrompt, messages, config), signal);
+    case "google":
+      return callGoogle(config, buildGoogleBody(systemPrompt, messages, config), signal);
+    case "ollama":
+      return callOllama(config, buildOllamaBody(systemPrompt, messages, config), signal);
+    case "bedrock":
+      return callBedrock(config, buildBedrockBody(systemPrompt, messages, config), signal);
+    default:
+      throw new Error(`Unknown provider: ${config.provider}`);
   }
 }
 
-export async function translateText(input: TranslationInput): Promise<string> {
-  const targetLanguage = getStringPref("targetLanguage", "zh-CN");
-  const singleWord = isSingleWord(input.text);
-  const hasScreenshot = !!input.pageScreenshot;
-  const { provider, modelId } = getConfig();
+// ============ Retry & Failover ============
 
-  debug(
-    `translateText: provider=${provider}, targetLanguage=${targetLanguage}, singleWord=${singleWord}, hasScreenshot=${hasScreenshot}, model=${modelId}`,
-  );
+/**
+ * Throttling, server errors, timeouts and network failures are worth
+ * retrying. Auth and request errors would fail the same way again.
+ */
+function isRetryableError(e: any): boolean {
+  if (e instanceof TimeoutError) return true;
+  if (e instanceof ApiError) {
+    return e.status === null
+      || e.status === 0
+      || e.status === 408
+      || e.status === 429
+      || e.status >= 500;
+  }
+  // fetch() rejects with a TypeError when the network request fails
+  return e instanceof TypeError;
+}
 
-  const systemPrompt = buildSystemPrompt(targetLanguage, singleWord, hasScreenshot);
-  const userText = singleWord ? `Word: ${input.text}` : `Text: ${input.text}`;
+function isImageError(e: any): boolean {
+  const errMsg = e?.message || String(e);
+  return errMsg.includes("image") || errMsg.includes("Image");
+}
 
-  debug("Invoking model...");
-  try {
-    const result = await callModel(
-      systemPrompt,
-      userText,
-      hasScreenshot ? input.pageScreenshot : null,
-    );
-    debug("Model response received");
-    return result.trim();
-  } catch (e: any) {
-    // If the model doesn't support images, retry without the screenshot
-    const errMsg = e?.message || String(e);
-    if (hasScreenshot && (errMsg.includes("image") || errMsg.includes("Image"))) {
-      debug("Model may not support images, retrying without screenshot...");
-      const fallbackPrompt = buildSystemPrompt(targetLanguage, singleWord, false);
-      const result = await callModel(fallbackPrompt, userText, null);
-      debug("Fallback (no image) response received");
-      return result.trim();
+/**
+ * Exponential backoff: base, 2x base, 4x base, ... plus up to 25% jitter.
+ */
+function getBackoffDelay(retry: number): number {
+  const delay = getIntPref("retry.baseDelay", 1000) * 2 ** retry;
+  return Math.round(delay * (1 + Math.random() * 0.25));
+}
+
+/**
+ * Wait before a retry; rejects with CancelledError as soon as the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError("Translation"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError("Translation"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+interface ChainEntry {
+  label: string;
+  /** Resolved lazily so a misconfigured fallback only fails in its turn */
+  resolve: () => LLMConfig;
+}
+
+/**
+ * Ordered provider chain: the active profile (or flat prefs) first, then the
+ * profiles listed in the `fallbackProfiles` pref by name or id.
+ */
+function getProviderChain(): ChainEntry[] {
+  const active = getActiveProfile();
+  const chain: ChainEntry[] = [active
+    ? { label: active.name, resolve: () => getProfileConfig(active) }
+    : { label: PROVIDER_DEFAULTS[toProvider(getStringPref("provider", "bedrock"))].name, resolve: getPrefsConfig }];
+
+  const seen = new Set<string>(active ? [active.id] : []);
+  const profiles = loadProfiles();
+  const names = getStringPref("fallbackProfiles", "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  for (const name of names) {
+    const profile = profiles.find((p) => p.name === name || p.id === name);
+    if (!profile) {
+      debug(`Fallback profile "${name}" not found, skipping`);
+      continue;
     }
-    throw e;
+    if (seen.has(profile.id)) continue;
+    seen.add(profile.id);
+    chain.push({ label: profile.name, resolve: () => getProfileConfig(profile) });
   }
+  return chain;
+}
+
+/**
+ * Send `messages` through the provider chain and return the first answer.
+ * When onProgress is given, streaming is attempted and it receives the
+ * accumulated text after every chunk.
+ *
+ * Retry policy, per provider in the failover chain:
+ * - the model rejects the screenshot: retry once without it, unless the
+ *   image is the whole question (`imageRequired`)
+ * - retryable error: back off exponentially, up to `retry.maxRetries` times
+ * - anything else, or retries exhausted: move on to the next provider
+ */
+async function callWithFailover(
+  chain: ChainEntry[],
+  messages: ChatMessage[],
+  getSystemPrompt: (hasScreenshot: boolean) => string,
+  description: string,
+  onProgress?: (partialText: string) => void,
+  signal?: AbortSignal,
+  imageRequired = false,
+): Promise<{ text: string; config: LLMConfig }> {
+  const maxRetries = Math.max(0, getIntPref("retry.maxRetries", 2));
+
+  let partial = "";
+  const onDelta: DeltaCallback | undefined = onProgress
+    ? (delta) => {
+      partial += delta;
+      onProgress(partial);
+    }
+    : undefined;
+
+  const failures: string[] = [];
+  let lastError: any = null;
+  // When every provider timed out, surface the timeout rather than a summary
+  let allTimedOut = true;
+
+  for (const entry of chain) {
+    let config: LLMConfig;
+    try {
+      config = entry.resolve();
+    } catch (e: any) {
+      debug(`Skipping ${entry.label}: ${e?.message || e}`);
+      failures.push(`${entry.label}: ${e?.message || String(e)}`);
+      lastError = e;
+      allTimedOut = false;
+      continue;
+    }
+
+    let attemptMessages = messages;
+    let retries = 0;
+    while (true) {
+      const hasScreenshot = attemptMessages.some((m) => !!m.image);
+      debug(
+        `${description}: provider=${config.provider} (${config.label}), hasScreenshot=${hasScreenshot}, model=${config.modelId}, retry=${retries}`,
+      );
+
+      try {
+        partial = "";
+        const result = await callModel(config, getSystemPrompt(hasScreenshot), attemptMessages, onDelta, signal);
+        debug(`Model response received from ${config.label}`);
+        return { text: result.trim(), config };
+      } catch (e: any) {
+        // Cancellation ends the whole chain, never a retry or failover
+        if (e instanceof CancelledError || signal?.aborted) throw e;
+        lastError = e;
+        const errMsg = e?.message || String(e);
+
+        if (isRetryableError(e)) {
+          if (retries < maxRetries) {
+            const delay = getBackoffDelay(retries);
+            retries++;
+            debug(`${config.label} failed with a retryable error, retry ${retries}/${maxRetries} in ${delay}ms: ${errMsg}`);
+            await sleep(delay, signal);
+            continue;
+          }
+        } else if (hasScreenshot && !imageRequired && isImageError(e)) {
+          // If the model doesn't support images, retry without the screenshot
+          debug("Model may not support images, retrying without screenshot...");
+          attemptMessages = attemptMessages.map((m) => ({ ...m, image: null }));
+          continue;
+        }
+
+        debug(`${config.label} failed, trying next provider: ${errMsg}`);
+        failures.push(`${config.label}: ${errMsg}`);
+        if (!(e instanceof TimeoutError)) allTimedOut = false;
+        break;
+      }
+    }
+  }
+
+  if (chain.length === 1 || allTimedOut) throw lastError;
+  throw new Error(`All providers failed:\n${failures.map((f) => `• ${f}`).join("\n")}`);
+}
+
+/**
+ * The opening user message of a selection: the text, with the page
+ * screenshot attached. A region drawn on the page has no text, only its
+ * cropped image.
+ */
+function getSelectionMessage(input: TranslationInput, kind: TemplateKind): ChatMessage {
+  const text = !input.text
+    ? "Region: see the attached image."
+    : kind === "word" ? `Word: ${input.text}` : `Text: ${input.text}`;
+  return { role: "user", text, image: input.pageScreenshot };
+}
+
+function getPromptVariables(input: TranslationInput, targetLanguage: string, hasScreenshot: boolean): PromptVariables {
+  return {
+    targetLanguage,
+    text: input.text,
+    paper: input.paper,
+    pageNumber: input.pageNumber,
+    hasScreenshot,
+    textContext: input.textContext,
+  };
+}
+
+/**
+ * Translate the input text, through the cache and the provider chain
+ * (see callWithFailover).
+ * When onProgress is given, streaming is attempted and it receives the
+ * accumulated text after every chunk.
+ */
+export async function translateText(
+  input: TranslationInput,
+  onProgress?: (partialText: string) => void,
+  options: TranslateOptions = {},
+): Promise<TranslationResult> {
+  const targetLanguage = getStringPref("targetLanguage", "zh-CN");
+  const kind = options.kind || classifyText(input.text);
+  const template = getTemplate(kind);
+  const chain = getProviderChain();
+  // Regions have no text to key the cache by
+  const useCache = isCacheEnabled() && !!input.text;
+  const cacheKey = (config: LLMConfig): CacheKeyParts => ({
+    text: input.text,
+    targetLanguage,
+    provider: config.provider,
+    modelId: config.modelId,
+    promptVersion: getTemplateVersion(template),
+    paperKey: input.paper ? `${input.paper.libraryID}/${input.paper.itemKey}` : "",
+    contextMode: getContextMode(),
+  });
+
+  // Only the primary provider is looked up: a hit means no request at all
+  if (useCache && !options.bypassCache) {
+    try {
+      const cached = getCachedTranslation(cacheKey(chain[0].resolve()));
+      if (cached) {
+        debug(`Translation cache hit (${cached.provider})`);
+        return { text: cached.text, result: parseTranslation(cached.text, kind), provider: cached.provider, cached: true };
+      }
+    } catch (e: any) {
+      // Misconfigured primary provider: let the failover loop report it
+      debug(`Translation cache lookup skipped: ${e?.message || e}`);
+    }
+  }
+
+  const { text, config } = await callWithFailover(
+    chain,
+    [getSelectionMessage(input, kind)],
+    (hasScreenshot) => renderTemplate(template, getPromptVariables(input, targetLanguage, hasScreenshot)),
+    `translateText (kind=${kind}, targetLanguage=${targetLanguage})`,
+    onProgress,
+    options.signal,
+    !input.text,
+  );
+  if (useCache && text) {
+    putCachedTranslation(cacheKey(config), text, config.label);
+  }
+  return { text, result: parseTranslation(text, kind), provider: config.label, cached: false };
+}
+
+/**
+ * Ask a follow-up question about a translated selection. The model sees
+ * the whole conversation: the selection (with its screenshot), the first
+ * answer and the earlier questions and answers, under the `followup`
+ * prompt template. Answers are plain text and never cached.
+ */
+export async function askFollowUp(
+  input: TranslationInput,
+  firstAnswer: string,
+  turns: FollowUpTurn[],
+  question: string,
+  onProgress?: (partialText: string) => void,
+  options: Pick<TranslateOptions, "signal"> = {},
+): Promise<{ text: string; provider: string }> {
+  const targetLanguage = getStringPref("targetLanguage", "zh-CN");
+  const template = getTemplate("followup");
+  const messages: ChatMessage[] = [
+    getSelectionMessage(input, classifyText(input.text)),
+    { role: "assistant", text: firstAnswer },
+  ];
+  for (const turn of turns) {
+    messages.push({ role: "user", text: turn.question }, { role: "assistant", text: turn.answer });
+  }
+  messages.push({ role: "user", text: question });
+
+  const { text, config } = await callWithFailover(
+    getProviderChain(),
+    messages,
+    (hasScreenshot) => renderTemplate(template, getPromptVariables(input, targetLanguage, hasScreenshot)),
+    `askFollowUp (turn ${turns.length + 1})`,
+    onProgress,
+    options.signal,
+    !input.text,
+  );
+  return { text, provider: config.label };
 }
 
 export async function testConnection(): Promise<string> {
   debug("testConnection: starting...");
-  const { provider, modelId } = getConfig();
-  debug(`testConnection: provider=${provider}, model=${modelId}`);
+  const config = getConfig();
+  debug(`testConnection: provider=${config.provider}, model=${config.modelId}`);
 
   const systemPrompt = "You are a helpful assistant. Reply in one short sentence.";
-  const userText = "Say hello and confirm you are working.";
+  const messages: ChatMessage[] = [{ role: "user", text: "Say hello and confirm you are working." }];
 
-  const result = await callModel(systemPrompt, userText, null);
+  const result = await callModel(config, systemPrompt, messages);
   debug("testConnection: response received");
   return result;
 }
\ No newline at end of file
@@ -0,0 +1,300 @@
+/**
+ * Streaming helpers for LLM responses.
+ * Zotero.HTTP.request() buffers the whole body, so streaming calls go through
+ * fetch() and decode Server-Sent Events (OpenAI, Anthropic, Gemini), JSON
+ * lines (Ollama) or the AWS event-stream binary framing (Bedrock
+ * converse-stream) incrementally.
+ */
+
+import { debug } from "./debug";
+
+/**
+ * Error raised for non-2xx API responses. Carries the HTTP status so callers
+ * can decide whether to fall back or retry.
+ */
+export class ApiError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Error raised when a request is aborted through its AbortSignal.
+ * Never retried and never shown to the user as a failure.
+ */
+export class CancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} request cancelled`);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Error raised when a provider does not respond within the configured timeout.
+ */
+export class TimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * AbortController from the plugin scope, or from the main window when the
+ * bootstrap sandbox does not provide one.
+ */
+export function createAbortController(): AbortController {
+  if (typeof AbortController === "function") return new AbortController();
+  const mainWin = Zotero.getMainWindow() as any;
+  if (mainWin && typeof mainWin.AbortController === "function") {
+    return new mainWin.AbortController();
+  }
+  throw new Error("AbortController is not available");
+}
+
+function getFetch(): typeof fetch {
+  if (typeof fetch === "function") return fetch;
+  const mainWin = Zotero.getMainWindow() as any;
+  if (mainWin && typeof mainWin.fetch === "function") {
+    return mainWin.fetch.bind(mainWin);
+  }
+  throw new Error("fetch() is not available for streaming");
+}
+
+export interface RequestOptions {
+  /** Aborting cancels the request with CancelledError */
+  signal?: AbortSignal;
+  /**
+   * Timeout in milliseconds, 0 or unset for none. Buffered requests time
+   * the whole response; streams time the gap between chunks.
+   */
+  timeout?: number;
+}
+
+/**
+ * POST a request and feed the raw response body to onChunk as it arrives.
+ * Aborting the signal stops the request and raises CancelledError; going
+ * longer than options.timeout without data raises TimeoutError.
+ */
+export async function streamRequest(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  onChunk: (bytes: Uint8Array) => void,
+  options: RequestOptions = {},
+): Promise<void> {
+  const { signal, timeout = 0 } = options;
+  if (signal?.aborted) throw new CancelledError(label);
+
+  // Own controller, so both the caller's signal and the idle timer can abort
+  const controller = createAbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const resetTimer = () => {
+    if (!timeout) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+  };
+  const toError = (e: any) => {
+    if (timedOut) return new TimeoutError(label, timeout);
+    if (signal?.aborted) return new CancelledError(label);
+    return e;
+  };
+
+  try {
+    resetTimer();
+    let response: Response;
+    try {
+      response = await getFetch()(url, { method: "POST", headers, body, signal: controller.signal });
+    } catch (e) {
+      throw toError(e);
+    }
+
+    if (!response.ok) {
+      let errText = "";
+      try { errText = await response.text(); } catch (_e) { /* ignore */ }
+      debug(`${label} stream HTTP error: status=${response.status}`);
+      throw new ApiError(`${label} API error (${response.status}): ${errText.substring(0, 500)}`, response.status);
+    }
+
+    if (!response.body) {
+      throw new Error(`${label} streaming response has no body`);
+    }
+
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        resetTimer();
+        if (value && value.length > 0) onChunk(value);
+      }
+    } catch (e) {
+      try { reader.cancel(); } catch (_e) { /* ignore */ }
+      throw toError(e);
+    }
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ============ Server-Sent Events ============
+
+export interface SSEEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Incremental text/event-stream parser. Feed raw bytes, get complete events.
+ */
+export class SSEDecoder {
+  private decoder = new TextDecoder("utf-8");
+  private buffer = "";
+  private eventName: string | null = null;
+  private dataLines: string[] = [];
+
+  push(bytes: Uint8Array): SSEEvent[] {
+    this.buffer += this.decoder.decode(bytes, { stream: true });
+    const events: SSEEvent[] = [];
+
+    let newlineIdx: number;
+    while ((newlineIdx = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.substring(0, newlineIdx).replace(/\r$/, "");
+      this.buffer = this.buffer.substring(newlineIdx + 1);
+
+      if (line === "") {
+        if (this.dataLines.length > 0) {
+          events.push({ event: this.eventName, data: this.dataLines.join("\n") });
+        }
+        this.eventName = null;
+        this.dataLines = [];
+      } else if (line.startsWith("data:")) {
+        this.dataLines.push(line.substring(5).replace(/^ /, ""));
+      } else if (line.startsWith("event:")) {
+        this.eventName = line.substring(6).trim();
+      }
+      // Comments (":") and other fields (id, retry) are ignored
+    }
+
+    return events;
+  }
+}
+
+// ============ JSON Lines ============
+
+/**
+ * Incremental newline-delimited JSON parser (Ollama's streaming format).
+ */
+export class JSONLinesDecoder {
+  private decoder = new TextDecoder("utf-8");
+  private buffer = "";
+
+  push(bytes: Uint8Array): any[] {
+    this.buffer += this.decoder.decode(bytes, { stream: true });
+    const objects: any[] = [];
+
+    let newlineIdx: number;
+    while ((newlineIdx = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.substring(0, newlineIdx).trim();
+      this.buffer = this.buffer.substring(newlineIdx + 1);
+      if (line) objects.push(JSON.parse(line));
+    }
+
+    return objects;
+  }
+}
+
+// ============ AWS Event Stream ============
+
+export interface EventStreamMessage {
+  headers: Record<string, string>;
+  payload: string;
+}
+
+/**
+ * Incremental decoder for application/vnd.amazon.eventstream framing.
+ *
+ * Frame layout: total length (4) | headers length (4) | prelude CRC (4) |
+ * headers | payload | message CRC (4). CRCs are not verified — TLS already
+ * covers transport integrity.
+ */
+export class EventStreamDecoder {
+  private buffer = new Uint8Array(0);
+  private textDecoder = new TextDecoder("utf-8");
+
+  push(bytes: Uint8Array): EventStreamMessage[] {
+    const merged = new Uint8Array(this.buffer.length + bytes.length);
+    merged.set(this.buffer, 0);
+    merged.set(bytes, this.buffer.length);
+    this.buffer = merged;
+
+    const messages: EventStreamMessage[] = [];
+    while (this.buffer.length >= 12) {
+      const view = new DataView(this.buffer.buffer, this.buffer.byteOffset, this.buffer.byteLength);
+      const totalLength = view.getUint32(0);
+      const headersLength = view.getUint32(4);
+      if (this.buffer.length < totalLength) break;
+
+      const headers = this.decodeHeaders(this.buffer.subarray(12, 12 + headersLength));
+      const payloadBytes = this.buffer.subarray(12 + headersLength, totalLength - 4);
+      messages.push({ headers, payload: this.textDecoder.decode(payloadBytes) });
+
+      this.buffer = this.buffer.slice(totalLength);
+    }
+    return messages;
+  }
+
+  private decodeHeaders(bytes: Uint8Array): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const nameLength = bytes[offset];
+      offset += 1;
+      const name = this.textDecoder.decode(bytes.subarray(offset, offset + nameLength));
+      offset += nameLength;
+      const type = bytes[offset];
+      offset += 1;
+
+      switch (type) {
+        case 0: headers[name] = "true"; break;
+        case 1: headers[name] = "false"; break;
+        case 2: headers[name] = String(view.getInt8(offset)); offset += 1; break;
+        case 3: headers[name] = String(view.getInt16(offset)); offset += 2; break;
+        case 4: headers[name] = String(view.getInt32(offset)); offset += 4; break;
+        case 5: case 8: offset += 8; break;
+        case 6: case 7: {
+          const valueLength = view.getUint16(offset);
+          offset += 2;
+          if (type === 7) {
+            headers[name] = this.textDecoder.decode(bytes.subarray(offset, offset + valueLength));
+          }
+          offset += valueLength;
+          break;
+        }
+        case 9: offset += 16; break;
+        default:
+          // Unknown header type — the rest of the block cannot be parsed
+          return headers;
+      }
+    }
+    return headers;
+  }
+}
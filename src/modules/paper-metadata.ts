@@ -0,0 +1,126 @@
+/**
+ * Paper metadata - bibliographic details of the item open in the reader.
+ *
+ * Used twice: the title, venue and abstract go into the prompt to
+ * disambiguate domain terms, and the identifying fields are stored with
+ * wordbook entries so they can link back to the paper in Zotero.
+ */
+
+import { debug } from "./debug";
+
+/** What a wordbook entry records about its paper */
+export interface PaperSource {
+  title: string | null;
+  authors: string[];
+  year: string | null;
+  doi: string | null;
+  /** Journal, proceedings or other container title */
+  publication: string | null;
+  libraryID: number;
+  /** Set for group libraries (zotero:// URIs differ) */
+  groupID: number | null;
+  /** Key of the regular (parent) item */
+  itemKey: string;
+  /** Key of the PDF attachment open in the reader */
+  attachmentKey: string | null;
+}
+
+export interface PaperMetadata extends PaperSource {
+  abstract: string | null;
+}
+
+/** Fields holding the container title, depending on the item type */
+const PUBLICATION_FIELDS = ["publicationTitle", "proceedingsTitle", "conferenceName", "bookTitle", "university", "repository"];
+
+function getField(item: any, field: string): string {
+  try {
+    const value = item.getField(field);
+    return typeof value === "string" ? value.trim() : "";
+  } catch (e) {
+    // field not valid for this item type
+    return "";
+  }
+}
+
+function getAuthors(item: any): string[] {
+  try {
+    return item.getCreators().map((c: any) =>
+      c.name || [c.firstName, c.lastName].filter(Boolean).join(" "),
+    ).filter((name: string) => name.length > 0);
+  } catch (e) {
+    return [];
+  }
+}
+
+function getYear(item: any): string | null {
+  const date = getField(item, "date");
+  if (!date) return null;
+  try {
+    const year = Zotero.Date.strToDate(date).year;
+    return year ? String(year) : null;
+  } catch (e) {
+    return date.match(/\b(1[5-9]|20)\d{2}\b/)?.[0] || null;
+  }
+}
+
+function getGroupID(libraryID: number): number | null {
+  try {
+    if (Zotero.Libraries.get(libraryID)?.libraryType !== "group") return null;
+    return Zotero.Groups.getGroupIDFromLibraryID(libraryID) || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Metadata of the reader's parent item (or the attachment itself when it
+ * is a standalone PDF).
+ */
+export function getPaperMetadata(reader: any): PaperMetadata | null {
+  return getAttachmentMetadata(Zotero.Items.get(reader?.itemID));
+}
+
+/**
+ * Metadata of an attachment's parent item (or the attachment itself).
+ */
+export function getAttachmentMetadata(attachment: any): PaperMetadata | null {
+  try {
+    if (!attachment) return null;
+    const item = attachment.parentItem || attachment;
+    const publication = PUBLICATION_FIELDS.map((f) => getField(item, f)).find((v) => v.length > 0);
+
+    return {
+      title: getField(item, "title") || null,
+      authors: getAuthors(item),
+      year: getYear(item),
+      doi: getField(item, "DOI") || null,
+      publication: publication || null,
+      abstract: getField(item, "abstractNote") || null,
+      libraryID: item.libraryID,
+      groupID: getGroupID(item.libraryID),
+      itemKey: item.key,
+      attachmentKey: attachment.isAttachment?.() ? attachment.key : null,
+    };
+  } catch (e) {
+    debug(`Could not read paper metadata: ${e}`);
+    return null;
+  }
+}
+
+/**
+ * zotero://open-pdf link to `page` (1-based) of the source's attachment,
+ * or null without an attachment key.
+ */
+export function getOpenPdfURL(source: PaperSource, page: number | null): string | null {
+  if (!source.attachmentKey) return null;
+  const library = source.groupID ? `groups/${source.groupID}` : "library";
+  return `zotero://open-pdf/${library}/items/${source.attachmentKey}${page ? `?page=${page}` : ""}`;
+}
+
+/**
+ * The stored part of the metadata (everything but the abstract).
+ */
+export function toPaperSource(paper: PaperMetadata): PaperSource {
+  const { abstract: _abstract, ...source } = paper;
+  return source;
+}
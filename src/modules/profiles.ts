@@ -0,0 +1,177 @@
+/**
+ * Provider profiles - named snapshots of provider settings stored as a JSON
+ * array in the `profiles` pref. When `activeProfile` names a profile,
+ * llm-service uses it instead of the flat `<provider>.*` prefs.
+ */
+
+import { debug, error } from "./debug";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+
+/** How Bedrock authenticates: bearer API key, or SigV4 with IAM credentials */
+export type BedrockAuthMode = "apiKey" | "iam";
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  provider: string;
+  apiKey: string;
+  modelId: string;
+  /** AWS region (Bedrock only) */
+  region: string;
+  /** Bedrock only; profiles saved before it existed lack it */
+  authMode?: BedrockAuthMode;
+  /** Endpoint / base URL (non-Bedrock providers) */
+  endpoint: string;
+  temperature: number;
+  maxTokens: number;
+  /** Nucleus sampling; null leaves the provider default */
+  topP?: number | null;
+  /** Request timeout in seconds, 0 = none */
+  timeout?: number;
+}
+
+export interface GenerationSettings {
+  temperature: number;
+  maxTokens: number;
+  topP: number | null;
+  /** Seconds, 0 = none */
+  timeout: number;
+}
+
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  provider: string;
+  modelId: string;
+}
+
+export const DEFAULT_TEMPERATURE = 0.1;
+export const DEFAULT_MAX_TOKENS = 4096;
+export const DEFAULT_TIMEOUT = 60;
+
+function getPref(key: string): string {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.${key}`, true);
+    if (typeof val === "string") return val.trim();
+  } catch (e) {
+    // preference not set
+  }
+  return "";
+}
+
+function setPref(key: string, value: string): void {
+  Zotero.Prefs.set(`${PREF_PREFIX}.${key}`, value, true);
+}
+
+function getNumberPref(key: string): number | null {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.${key}`, true);
+    // Fractional values (temperature, top-p) are stored as strings
+    const num = typeof val === "string" ? parseFloat(val) : val;
+    if (typeof num === "number" && Number.isFinite(num)) return num;
+  } catch (e) {
+    // preference not set
+  }
+  return null;
+}
+
+/**
+ * Generation settings of a provider from its flat `<provider>.*` prefs,
+ * with out-of-range values replaced by defaults.
+ */
+export function readGenerationPrefs(provider: string): GenerationSettings {
+  const temperature = getNumberPref(`${provider}.temperature`);
+  const maxTokens = getNumberPref(`${provider}.maxTokens`);
+  const topP = getNumberPref(`${provider}.topP`);
+  const timeout = getNumberPref(`${provider}.timeout`);
+  return {
+    temperature: temperature !== null && temperature >= 0 ? temperature : DEFAULT_TEMPERATURE,
+    maxTokens: maxTokens !== null && maxTokens > 0 ? Math.round(maxTokens) : DEFAULT_MAX_TOKENS,
+    topP: topP !== null && topP > 0 && topP <= 1 ? topP : null,
+    timeout: timeout !== null && timeout >= 0 ? timeout : DEFAULT_TIMEOUT,
+  };
+}
+
+export function loadProfiles(): ProviderProfile[] {
+  const raw = getPref("profiles");
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((p) => p && p.id && p.provider) : [];
+  } catch (e) {
+    error("Invalid profiles preference, ignoring", e);
+    return [];
+  }
+}
+
+function saveProfiles(profiles: ProviderProfile[]): void {
+  setPref("profiles", JSON.stringify(profiles));
+}
+
+export function listProfileSummaries(): ProfileSummary[] {
+  return loadProfiles().map(({ id, name, provider, modelId }) => ({ id, name, provider, modelId }));
+}
+
+/**
+ * The active profile, or null when the flat provider prefs are in use.
+ */
+export function getActiveProfile(): ProviderProfile | null {
+  const id = getPref("activeProfile");
+  if (!id) return null;
+  const profile = loadProfiles().find((p) => p.id === id) || null;
+  if (!profile) debug(`Active profile ${id} no longer exists, using default settings`);
+  return profile;
+}
+
+export function setActiveProfile(id: string): void {
+  setPref("activeProfile", id);
+  debug(`Active profile set to ${id || "(default settings)"}`);
+}
+
+/**
+ * Snapshot the current flat settings of the selected provider, including its
+ * generation settings, into a named profile. Saving under an existing name
+ * overwrites that profile.
+ */
+export function saveCurrentAsProfile(name: string): ProviderProfile {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Profile name is required");
+
+  const provider = getPref("provider") || "bedrock";
+  const profiles = loadProfiles();
+  const existing = profiles.find((p) => p.name === trimmed);
+  const iam = provider === "bedrock" && getPref("bedrock.authMode") === "iam";
+
+  const profile: ProviderProfile = {
+    id: existing?.id || Zotero.Utilities.randomString(8),
+    name: trimmed,
+    provider,
+    // In IAM mode a leftover Bedrock API key must not be kept
+    apiKey: iam ? "" : getPref(`${provider}.apiKey`),
+    modelId: getPref(`${provider}.modelId`),
+    region: provider === "bedrock" ? getPref("bedrock.region") : "",
+    ...(provider === "bedrock" ? { authMode: iam ? "iam" : "apiKey" } as const : {}),
+    endpoint: provider === "bedrock" ? "" : getPref(`${provider}.endpoint`),
+    ...readGenerationPrefs(provider),
+  };
+
+  if (existing) {
+    profiles[profiles.indexOf(existing)] = profile;
+  } else {
+    profiles.push(profile);
+  }
+  saveProfiles(profiles);
+  debug(`Saved profile "${profile.name}" (${profile.provider}/${profile.modelId})`);
+  return profile;
+}
+
+export function deleteProfile(id: string): boolean {
+  const profiles = loadProfiles();
+  const remaining = profiles.filter((p) => p.id !== id);
+  if (remaining.length === profiles.length) return false;
+  saveProfiles(remaining);
+  if (getPref("activeProfile") === id) setActiveProfile("");
+  debug(`Deleted profile ${id}`);
+  return true;
+}
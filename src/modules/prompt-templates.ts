@@ -0,0 +1,399 @@
+/**
+ * Prompt templates - user-editable system prompts with {variable} placeholders.
+ *
+ * One template per kind of selection (single word, short phrase, long
+ * passage), one per explanation mode picked in the popup (plain
+ * explanation, summary, ...), plus one for chunks of full-document
+ * translation, one for follow-up questions about a selection and one for
+ * regions drawn on the page (sent as an image only), stored in the
+ * `prompt.<kind>` prefs. An empty pref means the built-in default. Unknown
+ * placeholders are left untouched.
+ *
+ * The selection defaults ask for JSON matching translation-result.ts;
+ * custom templates may also use the older 【】 section format. The mode
+ * and region defaults ask for JSON with their own fields. Document
+ * chunks and follow-up answers are plain text.
+ */
+
+import { sha256, toHex } from "./sigv4";
+import type { TextContext } from "./text-context";
+import type { PaperMetadata } from "./paper-metadata";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+
+/** Ways to handle a selection other than translating it */
+export type ExplainMode = "explain" | "summarize" | "paraphrase" | "formula" | "jargon" | "polish";
+
+export const EXPLAIN_MODES: ExplainMode[] = ["explain", "summarize", "paraphrase", "formula", "jargon", "polish"];
+
+export type TemplateKind = "word" | "phrase" | "passage" | "document" | "followup" | ExplainMode | "region";
+
+export const TEMPLATE_KINDS: TemplateKind[] = ["word", "phrase", "passage", "document", "followup", ...EXPLAIN_MODES, "region"];
+
+/** Selections up to this many words without sentence punctuation are phrases */
+const MAX_PHRASE_WORDS = 5;
+
+export interface PromptVariables {
+  targetLanguage: string;
+  text: string;
+  /** The paper open in the reader */
+  paper: PaperMetadata | null;
+  pageNumber: number | null;
+  hasScreenshot: boolean;
+  /** Sentences around the selection from the PDF text layer */
+  textContext: TextContext | null;
+}
+
+const SCREENSHOT_NOTE = "A screenshot of the current PDF page is provided for context. Use it to improve translation accuracy for domain-specific terms.";
+
+/**
+ * The text context as a prompt paragraph (empty without context).
+ */
+function formatContextNote(context: TextContext | null): string {
+  if (!context) return "";
+  const passage = [context.before, context.sentence, context.after].filter(Boolean).join(" ");
+  const section = context.section ? ` (section "${context.section}")` : "";
+  return `The text was selected from this passage of the paper${section}. Use it to choose the meaning that fits:\n"""\n${passage}\n"""`;
+}
+
+/** Abstracts are cut to this length; the opening sets the field well enough */
+const MAX_ABSTRACT_CHARS = 1200;
+
+function formatAuthors(authors: string[]): string {
+  return authors.length > 3 ? `${authors[0]} et al.` : authors.join(", ");
+}
+
+function truncateAbstract(abstract: string | null): string {
+  if (!abstract) return "";
+  return abstract.length > MAX_ABSTRACT_CHARS ? abstract.substring(0, MAX_ABSTRACT_CHARS) + "…" : abstract;
+}
+
+/**
+ * The paper's bibliographic details as a prompt paragraph (empty without a title).
+ */
+function formatPaperNote(paper: PaperMetadata | null): string {
+  if (!paper?.title) return "";
+  const details = [formatAuthors(paper.authors), paper.publication, paper.year].filter(Boolean).join(", ");
+  const lines = [`The text comes from the paper "${paper.title}"${details ? ` (${details})` : ""}.`];
+  if (paper.abstract) lines.push(`Abstract: ${truncateAbstract(paper.abstract)}`);
+  lines.push("Prefer the established translations of terms in this paper's field.");
+  return lines.join("\n");
+}
+
+const DEFAULT_TEMPLATES: Record<TemplateKind, string> = {
+  word: `You are an expert academic dictionary and translator. Translate the word to {targetLanguage}.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "word": "the word",
+  "ipaUk": "British IPA, without brackets",
+  "ipaUs": "American IPA, without brackets",
+  "senses": [{ "partOfSpeech": "adj.", "meaning": "meaning in {targetLanguage}" }],
+  "examples": [{ "source": "example sentence in English", "translation": "the sentence in {targetLanguage}" }],
+  "contextualMeaning": "meaning in this paper{paperTitle: ('{paperTitle}')} in {targetLanguage}, or null if the context is unclear"
+}
+Give 1-3 senses and 1-2 examples.`,
+
+  phrase: `You are an expert academic translator. Translate the phrase to {targetLanguage}.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "translation": "accurate translation into {targetLanguage}",
+  "usage": "how the phrase is used, in {targetLanguage}",
+  "grammarPatterns": [],
+  "vocabulary": [{ "word": "a key word", "partOfSpeech": "n.", "meaning": "meaning in {targetLanguage}" }]
+}`,
+
+  passage: `You are an expert academic translator. Translate the text to {targetLanguage}.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "translation": "accurate translation into {targetLanguage}",
+  "grammarPatterns": [{ "pattern": "It is... that...", "explanation": "explanation in {targetLanguage}" }],
+  "vocabulary": [{ "word": "a key word", "partOfSpeech": "n.", "meaning": "meaning in {targetLanguage}" }]
+}
+Give 1-3 grammar patterns and 2-5 vocabulary items.`,
+
+  document: `You are an expert academic translator. Translate this excerpt{pageNumber: from page {pageNumber}} of a paper to {targetLanguage}.
+{paperNote}
+Reply with ONLY the translation, no commentary. Keep the paragraph breaks, and keep formulas, citations, numbers and reference markers unchanged.`,
+
+  followup: `You are an expert academic reading assistant. You translated or explained a selection{pageNumber: from page {pageNumber}} of a paper to {targetLanguage}, and the reader now asks follow-up questions about it.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Answer in {targetLanguage}, in plain text without JSON or Markdown fences. Be concise, and quote the original wording when it helps.`,
+
+  explain: `You are a patient academic tutor. Explain in plain {targetLanguage} what the text means, for a reader who is not an expert in this field.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "explanation": "what the text says, in plain {targetLanguage}",
+  "keyPoints": ["a point worth remembering, in {targetLanguage}"]
+}
+Give 2-4 key points. Avoid jargon; when a technical term cannot be avoided, explain it.`,
+
+  summarize: `You are an expert academic reader. Summarize the text in {targetLanguage}.
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "summary": "the gist in one or two sentences, in {targetLanguage}",
+  "points": ["a main point, in {targetLanguage}"]
+}
+Give 2-5 main points, in the order the text makes them.`,
+
+  paraphrase: `You are an expert academic editor. Paraphrase the text in formal academic English: keep its meaning, citations and technical terms, but not its wording, so it can be used without quoting.
+{contextNote}
+{paperTitle:The text comes from the paper "{paperTitle}".}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "paraphrase": "the paraphrase, in English",
+  "alternatives": ["another way to phrase a key sentence, in English"],
+  "notes": ["what was changed and why, in {targetLanguage}"]
+}
+Give 1-2 alternatives and 1-3 notes.`,
+
+  formula: `You are an expert in mathematical notation. The text is a formula or notation from a paper{pageNumber: (page {pageNumber})}; PDF text extraction may have garbled it, so read it from the screenshot when one is provided.
+{screenshotNote}
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "latex": "the formula in LaTeX",
+  "reading": "how to read it aloud, in {targetLanguage}",
+  "symbols": [{ "symbol": "a symbol", "meaning": "what it stands for here, in {targetLanguage}" }],
+  "intuition": "what the formula expresses and why it matters, in {targetLanguage}"
+}`,
+
+  jargon: `You are an expert in this paper's field, introducing it to a newcomer. Define the technical terms and acronyms in the text in {targetLanguage}.
+{contextNote}
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "terms": [{ "term": "the term as written", "definition": "a plain definition in {targetLanguage}", "example": "an everyday example or analogy, in {targetLanguage}" }]
+}
+List the terms a first-year student might not know, at most 8. Use "" as the example when none helps.`,
+
+  polish: `You are an expert editor of academic English. The text is the reader's own writing: polish it into clear, correct academic English without changing its meaning.
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "polished": "the polished text",
+  "changes": [{ "original": "the original wording", "revised": "the revised wording", "reason": "why, in {targetLanguage}" }]
+}
+List at most 6 changes, the most important first.`,
+
+  region: `You are an expert at reading academic papers. The image is a region cropped from a page{pageNumber: (page {pageNumber})} of a paper: a formula, a figure, a table or text that could not be selected.
+{paperNote}
+Reply with ONLY a JSON object, no Markdown fences or commentary, in this shape:
+{
+  "transcription": "the region's content: formulas in LaTeX, text as written, a figure's labels and text",
+  "translation": "its text translated into {targetLanguage}, or \"\" when it has no prose",
+  "explanation": "what the region shows or means, in {targetLanguage}",
+  "symbols": [{ "symbol": "a symbol", "meaning": "what it stands for here, in {targetLanguage}" }]
+}
+List symbols only for formulas.`,
+};
+
+/**
+ * Sample values for the preview in the preferences pane.
+ */
+const PREVIEW_PAPER: PaperMetadata = {
+  title: "Attention Is All You Need",
+  authors: ["Ashish Vaswani", "Noam Shazeer", "Niki Parmar", "Jakob Uszkoreit"],
+  year: "2017",
+  doi: null,
+  publication: "Advances in Neural Information Processing Systems",
+  abstract: "The dominant sequence transduction models are based on complex recurrent or convolutional neural networks that include an encoder and a decoder.",
+  libraryID: 1,
+  groupID: null,
+  itemKey: "ABCD2345",
+  attachmentKey: null,
+};
+
+const PREVIEW_VARIABLES: Record<TemplateKind, PromptVariables> = {
+  word: {
+    targetLanguage: "",
+    text: "elaborate",
+    paper: PREVIEW_PAPER,
+    pageNumber: 3,
+    hasScreenshot: true,
+    textContext: {
+      sentence: "We elaborate on the attention mechanism in Section 3.2.",
+      before: "The Transformer follows this overall architecture.",
+      after: "",
+      section: "3 Model Architecture",
+    },
+  },
+  phrase: { targetLanguage: "", text: "state of the art", paper: PREVIEW_PAPER, pageNumber: 3, hasScreenshot: true, textContext: null },
+  passage: { targetLanguage: "", text: "It is not how much we have, but how much we enjoy, that makes happiness.", paper: null, pageNumber: null, hasScreenshot: false, textContext: null },
+  document: {
+    targetLanguage: "",
+    text: "The Transformer follows this overall architecture using stacked self-attention and point-wise, fully connected layers for both the encoder and decoder.",
+    paper: PREVIEW_PAPER,
+    pageNumber: 3,
+    hasScreenshot: false,
+    textContext: null,
+  },
+  followup: {
+    targetLanguage: "",
+    text: "multi-head attention",
+    paper: PREVIEW_PAPER,
+    pageNumber: 4,
+    hasScreenshot: true,
+    textContext: {
+      sentence: "Multi-head attention allows the model to jointly attend to information from different representation subspaces.",
+      before: "",
+      after: "",
+      section: "3.2.2 Multi-Head Attention",
+    },
+  },
+  explain: {
+    targetLanguage: "",
+    text: "Self-attention, sometimes called intra-attention, is an attention mechanism relating different positions of a single sequence in order to compute a representation of the sequence.",
+    paper: PREVIEW_PAPER,
+    pageNumber: 2,
+    hasScreenshot: true,
+    textContext: null,
+  },
+  summarize: {
+    targetLanguage: "",
+    text: "The Transformer allows for significantly more parallelization and can reach a new state of the art in translation quality after being trained for as little as twelve hours on eight P100 GPUs.",
+    paper: PREVIEW_PAPER,
+    pageNumber: 2,
+    hasScreenshot: false,
+    textContext: null,
+  },
+  paraphrase: {
+    targetLanguage: "",
+    text: "Recurrent models typically factor computation along the symbol positions of the input and output sequences.",
+    paper: PREVIEW_PAPER,
+    pageNumber: 2,
+    hasScreenshot: false,
+    textContext: null,
+  },
+  formula: {
+    targetLanguage: "",
+    text: "Attention(Q, K, V ) = softmax( QKT √dk )V",
+    paper: PREVIEW_PAPER,
+    pageNumber: 4,
+    hasScreenshot: true,
+    textContext: {
+      sentence: "We compute the matrix of outputs as:",
+      before: "In practice, we compute the attention function on a set of queries simultaneously, packed together into a matrix Q.",
+      after: "",
+      section: "3.2.1 Scaled Dot-Product Attention",
+    },
+  },
+  jargon: {
+    targetLanguage: "",
+    text: "We employ a residual connection around each of the two sub-layers, followed by layer normalization.",
+    paper: PREVIEW_PAPER,
+    pageNumber: 3,
+    hasScreenshot: false,
+    textContext: null,
+  },
+  polish: { targetLanguage: "", text: "In this paper we proposes a new method which make the training more faster.", paper: null, pageNumber: null, hasScreenshot: false, textContext: null },
+  region: { targetLanguage: "", text: "", paper: PREVIEW_PAPER, pageNumber: 4, hasScreenshot: true, textContext: null },
+};
+
+export function classifyText(text: string): TemplateKind {
+  const trimmed = text.trim();
+  const words = trimmed.split(/\s+/).filter((w) => w.length > 0);
+  if (words.length <= 1) return "word";
+  if (words.length <= MAX_PHRASE_WORDS && !/[.!?;:。！？；：]/.test(trimmed)) return "phrase";
+  return "passage";
+}
+
+export function getDefaultTemplate(kind: TemplateKind): string {
+  return DEFAULT_TEMPLATES[kind];
+}
+
+/**
+ * The template in use for a kind: the pref if set, else the built-in default.
+ */
+export function getTemplate(kind: TemplateKind): string {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.prompt.${kind}`, true);
+    if (typeof val === "string" && val.trim().length > 0) return val;
+  } catch (e) {
+    // preference not set
+  }
+  return DEFAULT_TEMPLATES[kind];
+}
+
+/**
+ * Save a custom template; saving the default text (or nothing) resets it.
+ */
+export function setTemplate(kind: TemplateKind, template: string): void {
+  const value = template.trim() === DEFAULT_TEMPLATES[kind].trim() ? "" : template;
+  Zotero.Prefs.set(`${PREF_PREFIX}.prompt.${kind}`, value, true);
+}
+
+/**
+ * Short hash of a template, used as the prompt version in cache keys so
+ * editing a template never serves translations made with the old one.
+ */
+export function getTemplateVersion(template: string): string {
+  return toHex(sha256(new TextEncoder().encode(template))).substring(0, 12);
+}
+
+/**
+ * Substitute variables. Besides plain {name}, {name:prefix{name}suffix}
+ * renders the inner text only when the variable has a value.
+ */
+export function renderTemplate(template: string, vars: PromptVariables): string {
+  const values: Record<string, string> = {
+    targetLanguage: vars.targetLanguage,
+    text: vars.text,
+    paperTitle: vars.paper?.title || "",
+    authors: vars.paper ? formatAuthors(vars.paper.authors) : "",
+    year: vars.paper?.year || "",
+    publication: vars.paper?.publication || "",
+    abstract: truncateAbstract(vars.paper?.abstract || null),
+    paperNote: formatPaperNote(vars.paper),
+    pageNumber: vars.pageNumber !== null ? String(vars.pageNumber) : "",
+    screenshotNote: vars.hasScreenshot ? SCREENSHOT_NOTE : "",
+    contextNote: formatContextNote(vars.textContext),
+    sentence: vars.textContext?.sentence || "",
+    section: vars.textContext?.section || "",
+  };
+  const substitute = (source: string) =>
+    source.replace(/\{(\w+)\}/g, (match, name) => (name in values ? values[name] : match));
+
+  const withConditionals = template.replace(/\{(\w+):((?:[^{}]|\{\w+\})*)\}/g, (match, name, inner) => {
+    if (!(name in values)) return match;
+    return values[name] ? substitute(inner) : "";
+  });
+  return substitute(withConditionals);
+}
+
+/**
+ * Render a template with sample values for the preferences pane preview.
+ */
+export function previewTemplate(kind: TemplateKind, template: string): string {
+  let targetLanguage = "zh-CN";
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.targetLanguage`, true);
+    if (typeof val === "string" && val.trim()) targetLanguage = val.trim();
+  } catch (e) {
+    // preference not set
+  }
+  return renderTemplate(template, { ...PREVIEW_VARIABLES[kind], targetLanguage });
+}
+
+export function isExplainMode(value: string): value is ExplainMode {
+  return (EXPLAIN_MODES as string[]).includes(value);
+}
+
+export function toTemplateKind(value: string): TemplateKind {
+  return (TEMPLATE_KINDS as string[]).includes(value) ? value as TemplateKind : "passage";
+}
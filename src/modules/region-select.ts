@@ -0,0 +1,164 @@
+/**
+ * Region selection - lets the user draw a rectangle over the reader's page
+ * view and crops it from the rendered page canvas, for formulas and figure
+ * text that the text layer returns empty or garbled.
+ */
+
+import { debug, error } from "./debug";
+import { getReaderWindows } from "./text-context";
+
+/** Drags smaller than this (CSS pixels) count as clicks, not regions */
+const MIN_REGION_SIZE = 6;
+
+export interface RegionCapture {
+  /** PNG data URL of the region */
+  image: string;
+  pageNumber: number | null;
+}
+
+/**
+ * PNG data URL of part of `canvas`, in canvas pixels. Null when the
+ * canvas cannot be drawn from.
+ */
+export function cropCanvas(doc: Document, canvas: HTMLCanvasElement, x: number, y: number, width: number, height: number): string | null {
+  const tempCanvas = doc.createElement("canvas");
+  tempCanvas.width = width;
+  tempCanvas.height = height;
+  const ctx = tempCanvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(canvas, x, y, width, height, 0, 0, width, height);
+  return tempCanvas.toDataURL("image/png");
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Crop `region` (viewport coordinates) from the page canvas it overlaps most.
+ */
+function cropRegion(doc: Document, region: Rect): RegionCapture | null {
+  let best: { canvas: HTMLCanvasElement; page: Element; overlap: Rect; area: number } | null = null;
+  const pages = doc.querySelectorAll(".page[data-page-number]");
+  for (let i = 0; i < pages.length; i++) {
+    const canvas = pages[i].querySelector("canvas");
+    if (!canvas) continue;
+    const rect = canvas.getBoundingClientRect();
+    const overlap = {
+      left: Math.max(region.left, rect.left),
+      top: Math.max(region.top, rect.top),
+      right: Math.min(region.right, rect.right),
+      bottom: Math.min(region.bottom, rect.bottom),
+    };
+    const area = Math.max(0, overlap.right - overlap.left) * Math.max(0, overlap.bottom - overlap.top);
+    if (area > (best?.area || 0)) best = { canvas, page: pages[i], overlap, area };
+  }
+  if (!best) return null;
+
+  const { canvas, page, overlap } = best;
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = canvas.width / rect.width;
+  const scaleY = canvas.height / rect.height;
+  const cropX = Math.round((overlap.left - rect.left) * scaleX);
+  const cropY = Math.round((overlap.top - rect.top) * scaleY);
+  const cropW = Math.max(1, Math.round((overlap.right - overlap.left) * scaleX));
+  const cropH = Math.max(1, Math.round((overlap.bottom - overlap.top) * scaleY));
+  const image = cropCanvas(doc, canvas, cropX, cropY, cropW, cropH);
+  if (!image) return null;
+  const pageNumber = parseInt(page.getAttribute("data-page-number") || "", 10) || null;
+  debug(`Captured region on page ${pageNumber}: ${cropW}x${cropH}, ${Math.round(image.length / 1024)}KB`);
+  return { image, pageNumber };
+}
+
+/**
+ * Let the user drag a rectangle over the page view, then crop it. Resolves
+ * to null when cancelled (Escape, or a click without dragging) or when the
+ * rectangle is not on a rendered page.
+ */
+export function selectRegion(reader: any): Promise<RegionCapture | null> {
+  const win = getReaderWindows(reader).find((w) => w.document?.querySelector(".page[data-page-number] canvas"));
+  if (!win) {
+    debug("No rendered PDF pages to select a region from");
+    return Promise.resolve(null);
+  }
+  const doc: Document = win.document;
+
+  return new Promise((resolve) => {
+    const overlay = doc.createElement("div");
+    overlay.style.cssText = "position: fixed; inset: 0; z-index: 2147483647; cursor: crosshair; background: rgba(0, 0, 0, 0.06);";
+    const hint = doc.createElement("div");
+    hint.textContent = "Drag to select a region to translate · Esc to cancel";
+    hint.style.cssText = `
+      position: fixed;
+      top: 8px;
+      left: 50%;
+      transform: translateX(-50%);
+      padding: 4px 10px;
+      border-radius: 4px;
+      background: rgba(26, 26, 46, 0.85);
+      color: #fff;
+      font: 12px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      pointer-events: none;
+    `;
+    const box = doc.createElement("div");
+    box.style.cssText = "position: fixed; display: none; border: 2px dashed #667eea; background: rgba(102, 126, 234, 0.12); pointer-events: none;";
+    overlay.appendChild(hint);
+    overlay.appendChild(box);
+
+    let start: { x: number; y: number } | null = null;
+    let region: Rect | null = null;
+
+    const finish = (capture: RegionCapture | null) => {
+      overlay.remove();
+      win.removeEventListener("keydown", onKeyDown, true);
+      resolve(capture);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.preventDefault();
+      e.stopPropagation();
+      debug("Region selection cancelled");
+      finish(null);
+    };
+
+    overlay.addEventListener("mousedown", (e: MouseEvent) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      start = { x: e.clientX, y: e.clientY };
+    });
+    overlay.addEventListener("mousemove", (e: MouseEvent) => {
+      if (!start) return;
+      region = {
+        left: Math.min(start.x, e.clientX),
+        top: Math.min(start.y, e.clientY),
+        right: Math.max(start.x, e.clientX),
+        bottom: Math.max(start.y, e.clientY),
+      };
+      box.style.display = "block";
+      box.style.left = `${region.left}px`;
+      box.style.top = `${region.top}px`;
+      box.style.width = `${region.right - region.left}px`;
+      box.style.height = `${region.bottom - region.top}px`;
+    });
+    overlay.addEventListener("mouseup", () => {
+      if (!start) return;
+      const drawn = region;
+      start = null;
+      if (!drawn || drawn.right - drawn.left < MIN_REGION_SIZE || drawn.bottom - drawn.top < MIN_REGION_SIZE) {
+        finish(null);
+        return;
+      }
+      try {
+        finish(cropRegion(doc, drawn));
+      } catch (e) {
+        error("Failed to crop region", e);
+        finish(null);
+      }
+    });
+    win.addEventListener("keydown", onKeyDown, true);
+    (doc.body || doc.documentElement).appendChild(overlay);
+  });
+}
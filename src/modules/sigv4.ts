@@ -0,0 +1,208 @@
+/**
+ * AWS Signature Version 4 request signing in pure TypeScript.
+ * Includes a small SHA-256 / HMAC implementation so no SDK or WebCrypto
+ * (async-only) is needed.
+ */
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken: string | null;
+}
+
+export interface SignRequestParams {
+  method: string;
+  url: string;
+  body: string;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  /** Extra headers to include in the signature (e.g. Content-Type) */
+  headers?: Record<string, string>;
+  /** Signing time, defaults to now */
+  date?: Date;
+}
+
+// ============ SHA-256 / HMAC ============
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+
+  // Pad: 0x80, zeros, then the 64-bit big-endian bit length
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], hh = h[7];
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 8; i++) outView.setUint32(i * 4, h[i]);
+  return out;
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(64);
+  blockKey.set(key.length > 64 ? sha256(key) : key);
+
+  const inner = new Uint8Array(64 + data.length);
+  const outer = new Uint8Array(64 + 32);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  inner.set(data, 64);
+  outer.set(sha256(inner), 64);
+  return sha256(outer);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+// ============ SigV4 ============
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone).
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) =>
+    "%" + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+function parseUrl(url: string): { host: string; path: string; query: string } {
+  const match = url.match(/^https?:\/\/([^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) throw new Error(`Cannot sign invalid URL: ${url}`);
+  return { host: match[1].toLowerCase(), path: match[2] || "/", query: match[3] || "" };
+}
+
+/**
+ * Non-S3 services expect each path segment to be encoded once more on top
+ * of the encoding already present in the URL (so "%3A" becomes "%253A").
+ */
+function canonicalPath(path: string): string {
+  return path.split("/").map((segment) => uriEncode(segment)).join("/");
+}
+
+function canonicalQuery(query: string): string {
+  if (!query) return "";
+  return query
+    .split("&")
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const eq = pair.indexOf("=");
+      const key = decodeURIComponent(eq >= 0 ? pair.substring(0, eq) : pair);
+      const value = eq >= 0 ? decodeURIComponent(pair.substring(eq + 1)) : "";
+      return [uriEncode(key), uriEncode(value)];
+    })
+    .sort((a, b) => (a[0] === b[0] ? (a[1] < b[1] ? -1 : 1) : (a[0] < b[0] ? -1 : 1)))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+/**
+ * Sign a request and return the headers to send with it (Authorization,
+ * X-Amz-Date, X-Amz-Security-Token plus any extra signed headers).
+ * Host is signed but not returned: the HTTP stack sets it.
+ */
+export function signRequest(params: SignRequestParams): Record<string, string> {
+  const { method, url, body, region, service, credentials } = params;
+  const { host, path, query } = parseUrl(url);
+
+  const amzDate = (params.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.substring(0, 8);
+  const payloadHash = toHex(sha256(utf8(body)));
+
+  const headers: Record<string, string> = { ...(params.headers || {}) };
+  headers["X-Amz-Date"] = amzDate;
+  headers["X-Amz-Content-Sha256"] = payloadHash;
+  if (credentials.sessionToken) {
+    headers["X-Amz-Security-Token"] = credentials.sessionToken;
+  }
+
+  const signed: Record<string, string> = { host };
+  for (const [name, value] of Object.entries(headers)) {
+    signed[name.toLowerCase()] = value.trim().replace(/\s+/g, " ");
+  }
+  const signedNames = Object.keys(signed).sort();
+  const signedHeaders = signedNames.join(";");
+
+  const canonicalRequest = [
+    method.toUpperCase(),
+    canonicalPath(path),
+    canonicalQuery(query),
+    signedNames.map((name) => `${name}:${signed[name]}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    toHex(sha256(utf8(canonicalRequest))),
+  ].join("\n");
+
+  const kDate = hmacSha256(utf8("AWS4" + credentials.secretAccessKey), utf8(dateStamp));
+  const kRegion = hmacSha256(kDate, utf8(region));
+  const kService = hmacSha256(kRegion, utf8(service));
+  const kSigning = hmacSha256(kService, utf8("aws4_request"));
+  const signature = toHex(hmacSha256(kSigning, utf8(stringToSign)));
+
+  headers.Authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -0,0 +1,266 @@
+/**
+ * Text context - the sentences around a selection, read from the reader's
+ * PDF text layer. A cheap alternative (or complement) to page screenshots
+ * that also works with text-only models.
+ *
+ * Only rendered pages have a text layer, so extraction is best-effort:
+ * when the selection cannot be found, no text context is sent.
+ */
+
+import { debug, error } from "./debug";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+
+export type ContextMode = "screenshot" | "text" | "both" | "none";
+
+export interface TextContext {
+  /** The sentence(s) containing the selection */
+  sentence: string;
+  /** Neighboring sentences */
+  before: string;
+  after: string;
+  /** Nearest preceding section heading, when one is detectable */
+  section: string | null;
+}
+
+/** Sentences included on each side of the selection */
+const NEIGHBOR_SENTENCES = 1;
+/** Longer sentences (usually text-layer noise such as tables) are clipped */
+const MAX_SENTENCE_CHARS = 600;
+const MAX_HEADING_CHARS = 100;
+
+/** Abbreviations whose period does not end a sentence */
+const ABBREVIATIONS = new Set([
+  "e.g", "i.e", "al", "fig", "figs", "eq", "eqs", "sec", "ref", "refs",
+  "tab", "vs", "cf", "approx", "resp", "no", "dr", "mr", "mrs", "ms", "st",
+]);
+
+const NAMED_HEADING = /^(?:abstract|introduction|related work|background|preliminaries|methods?|methodology|approach|experiments?|experimental setup|evaluation|results|discussion|limitations|conclusions?|future work|acknowledge?ments?|references|appendix)$/i;
+const NUMBERED_HEADING = /^(?:\d+(?:\.\d+)*\.?|[IVX]+\.|[A-H]\.)\s+[A-Z][^.!?]{1,80}$/;
+
+export function getContextMode(): ContextMode {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.contextMode`, true);
+    if (val === "screenshot" || val === "text" || val === "both" || val === "none") return val;
+  } catch (e) {
+    // preference not set
+  }
+  return "both";
+}
+
+/**
+ * Carry over the `enableContext` checkbox of older versions: screenshots
+ * turned off becomes text-only context.
+ */
+export function migrateContextPref(): void {
+  try {
+    const legacy = Zotero.Prefs.get(`${PREF_PREFIX}.enableContext`, true);
+    if (legacy === undefined) return;
+    if (legacy === false) {
+      Zotero.Prefs.set(`${PREF_PREFIX}.contextMode`, "text", true);
+      debug("Migrated enableContext=false to contextMode=text");
+    }
+    Zotero.Prefs.clear(`${PREF_PREFIX}.enableContext`, true);
+  } catch (e) {
+    error("Failed to migrate enableContext preference", e);
+  }
+}
+
+/**
+ * The reader's window and its nested iframes (the PDF view lives in one).
+ */
+export function getReaderWindows(reader: any): any[] {
+  const iframeWin = reader?._iframeWindow;
+  if (!iframeWin) {
+    debug("No _iframeWindow found on reader");
+    return [];
+  }
+  const windows: any[] = [iframeWin];
+  try {
+    const nestedIframes = iframeWin.document?.querySelectorAll?.("iframe");
+    if (nestedIframes) {
+      for (let i = 0; i < nestedIframes.length; i++) {
+        try {
+          const innerWin = nestedIframes[i].contentWindow;
+          if (innerWin) windows.push(innerWin);
+        } catch (e) { /* cross-origin */ }
+      }
+    }
+  } catch (e) { /* skip */ }
+  return windows;
+}
+
+interface PageText {
+  pageNumber: number;
+  text: string;
+  /** Offset in `text` where each text-layer line starts */
+  lineStarts: number[];
+  lines: string[];
+}
+
+/**
+ * Lines of a page's text layer. Newer pdf.js separates lines with <br>;
+ * older versions only with separate spans.
+ */
+function readTextLayerLines(textLayer: Element): string[] {
+  const hasBreaks = !!textLayer.querySelector("br");
+  const lines: string[] = [];
+  let current = "";
+  const walk = (node: Node) => {
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+      if (child.nodeType === 3) {
+        current += child.textContent || "";
+      } else if ((child as Element).tagName?.toLowerCase() === "br") {
+        lines.push(current);
+        current = "";
+      } else {
+        walk(child);
+        if (!hasBreaks && node === textLayer) {
+          lines.push(current);
+          current = "";
+        }
+      }
+    }
+  };
+  walk(textLayer);
+  lines.push(current);
+  return lines.map((l) => l.replace(/\s+/g, " ").trim()).filter((l) => l.length > 0);
+}
+
+/**
+ * Join lines into running text, undoing end-of-line hyphenation.
+ */
+function buildPageText(pageNumber: number, lines: string[]): PageText {
+  let text = "";
+  const lineStarts: number[] = [];
+  for (const line of lines) {
+    if (text.endsWith("-") && /^[a-z]/.test(line)) {
+      text = text.slice(0, -1);
+    } else if (text) {
+      text += " ";
+    }
+    lineStarts.push(text.length);
+    text += line;
+  }
+  return { pageNumber, text, lineStarts, lines };
+}
+
+function collectPages(reader: any): PageText[] {
+  const pages: PageText[] = [];
+  for (const win of getReaderWindows(reader)) {
+    try {
+      const pageEls = win.document?.querySelectorAll(".page[data-page-number]") || [];
+      for (let i = 0; i < pageEls.length; i++) {
+        const textLayer = pageEls[i].querySelector(".textLayer");
+        if (!textLayer) continue;
+        const pageNumber = parseInt(pageEls[i].getAttribute("data-page-number") || "0", 10);
+        const lines = readTextLayerLines(textLayer);
+        if (lines.length > 0) pages.push(buildPageText(pageNumber, lines));
+      }
+    } catch (e) { /* try next window */ }
+  }
+  return pages;
+}
+
+function findSelection(text: string, selection: string): { start: number; end: number } | null {
+  const needle = selection.replace(/\s+/g, " ").trim();
+  if (!needle) return null;
+  let start = text.indexOf(needle);
+  if (start < 0) start = text.toLowerCase().indexOf(needle.toLowerCase());
+  return start < 0 ? null : { start, end: start + needle.length };
+}
+
+/**
+ * Sentence spans of running text. A period followed by whitespace and an
+ * uppercase letter, digit or bracket ends a sentence unless it follows a
+ * known abbreviation; CJK sentence punctuation always does.
+ */
+function splitSentences(text: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  const boundary = /([.!?])["')\]]*\s+(?=["'(\[]?[A-Z0-9])|[。！？]/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    if (match[1] === ".") {
+      const word = text.substring(start, match.index).split(/\s+/).pop() || "";
+      if (ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Z]$/.test(word)) continue;
+    }
+    const end = match.index + match[0].length;
+    spans.push({ start, end });
+    start = end;
+  }
+  if (start < text.length) spans.push({ start, end: text.length });
+  return spans;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_SENTENCE_CHARS ? trimmed.substring(0, MAX_SENTENCE_CHARS) + "…" : trimmed;
+}
+
+function isHeading(line: string): boolean {
+  if (line.length > MAX_HEADING_CHARS) return false;
+  return NAMED_HEADING.test(line.replace(/^(?:\d+\.?|[IVX]+\.)\s*/, "")) || NUMBERED_HEADING.test(line);
+}
+
+/**
+ * Nearest heading above `offset` on the page, then on earlier rendered pages.
+ */
+function findSection(pages: PageText[], page: PageText, offset: number): string | null {
+  const lineIndex = page.lineStarts.filter((start) => start <= offset).length - 1;
+  for (let i = lineIndex; i >= 0; i--) {
+    if (isHeading(page.lines[i])) return page.lines[i];
+  }
+  const earlier = pages
+    .filter((p) => p.pageNumber < page.pageNumber)
+    .sort((a, b) => b.pageNumber - a.pageNumber);
+  for (const p of earlier) {
+    for (let i = p.lines.length - 1; i >= 0; i--) {
+      if (isHeading(p.lines[i])) return p.lines[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Sentences around `selection` from the reader's text layer.
+ * `pageIndex` (0-based, from the selection's annotation position) is
+ * searched first; otherwise every rendered page is.
+ */
+export function extractTextContext(reader: any, selection: string, pageIndex: number | null = null): TextContext | null {
+  try {
+    const pages = collectPages(reader);
+    if (pages.length === 0) {
+      debug("No rendered text layer for text context");
+      return null;
+    }
+    if (pageIndex !== null) {
+      pages.sort((a, b) => (b.pageNumber === pageIndex + 1 ? 1 : 0) - (a.pageNumber === pageIndex + 1 ? 1 : 0));
+    }
+
+    for (const page of pages) {
+      const found = findSelection(page.text, selection);
+      if (!found) continue;
+
+      const sentences = splitSentences(page.text);
+      const first = sentences.findIndex((s) => s.end > found.start);
+      let last = sentences.findIndex((s) => s.end >= found.end);
+      if (last < 0) last = sentences.length - 1;
+      const span = (from: number, to: number) =>
+        from > to ? "" : page.text.substring(sentences[from].start, sentences[to].end);
+
+      const context: TextContext = {
+        sentence: clip(span(first, last)),
+        before: clip(span(Math.max(0, first - NEIGHBOR_SENTENCES), first - 1)),
+        after: clip(span(last + 1, Math.min(sentences.length - 1, last + NEIGHBOR_SENTENCES))),
+        section: findSection(pages, page, found.start),
+      };
+      debug(`Text context from page ${page.pageNumber}: ${context.sentence.length} chars, section: ${context.section || "none"}`);
+      return context;
+    }
+    debug("Selection not found in rendered text layers");
+  } catch (e) {
+    error("Error extracting text context", e);
+  }
+  return null;
+}
@@ -1,6 +1,18 @@
 import { translateText, type TranslationInput } from "./llm-service";
+import { CancelledError, TimeoutError, createAbortController } from "./llm-stream";
 import { log, debug, error } from "./debug";
-import { saveWord } from "./wordbook";
+import { saveWord, type SourcePosition } from "./wordbook";
+import { formatPartialTranslation, formatTranslation, type StructuredTranslation } from "./translation-result";
+import { createHtmlElement, renderTranslation, type ResultAction } from "./translation-view";
+import { getActiveProfile, listProfileSummaries, setActiveProfile } from "./profiles";
+import { extractTextContext, getContextMode, getReaderWindows, type TextContext } from "./text-context";
+import { getPaperMetadata, toPaperSource, type PaperMetadata } from "./paper-metadata";
+import { appendToNote, saveAsAnnotation } from "./zotero-save";
+import { recordTranslation } from "./translation-history";
+import { createFollowUpBox } from "./follow-up";
+import { EXPLAIN_MODES, type ExplainMode } from "./prompt-templates";
+import { cropCanvas, selectRegion } from "./region-select";
+import { getResizableStyle, getSavedGeometry, isPanelPinned, makeDraggable, makeResizable, setPanelPinned } from "./floating-panel";
 
 // ID for our appended content
 const TRANSLATE_CONTENT_ID = "vibe-translate-content";
@@ -110,16 +122,44 @@ function getPopupPosition(): PopupPosition {
   return "popup";
 }
 
+const MODE_PICKER_ID = "vibe-translate-mode-picker";
+
+/** Names of the explanation modes in the mode pickers */
+const MODE_LABELS: Record<ExplainMode, string> = {
+  explain: "Explain simply",
+  summarize: "Summarize",
+  paraphrase: "Paraphrase academically",
+  formula: "Explain formula / notation",
+  jargon: "Define jargon",
+  polish: "Polish my English",
+};
+
+/**
+ * Whether a pinned floating panel is open; it then takes every new
+ * translation, whatever the popup position.
+ */
+function hasPinnedPanel(): boolean {
+  return isPanelPinned() && !!Zotero.getMainWindow()?.document.getElementById(TRANSLATE_CONTENT_ID);
+}
+
 /**
  * Context information for translation, including page screenshot.
  */
 export interface TranslationContext {
-  /** The selected text */
+  /** The selected text (empty for a region drawn on the page) */
   text: string;
   /** Base64 data URL of the current page screenshot (PNG) */
   pageScreenshot: string | null;
   /** Page number (if available) */
   pageNumber: number | null;
+  /** Bibliographic details of the paper the reader has open */
+  paper: PaperMetadata | null;
+  /** Sentences around the selection from the PDF text layer */
+  textContext: TextContext | null;
+  /** Where the selection is in the PDF (from the reader's annotation params) */
+  position: SourcePosition | null;
+  /** Explanation mode picked in the popup, or null to translate */
+  mode: ExplainMode | null;
 }
 
 /**
@@ -128,28 +168,7 @@ export interface TranslationContext {
 function capturePageScreenshot(reader: any): { screenshot: string | null; pageNumber: number | null } {
   debug("Attempting to capture page screenshot...");
   try {
-    const iframeWin = reader._iframeWindow;
-    if (!iframeWin) {
-      debug("No _iframeWindow found on reader");
-      return { screenshot: null, pageNumber: null };
-    }
-
-    const iframesToCheck: any[] = [iframeWin];
-
-    try {
-      const nestedIframes = iframeWin.document?.querySelectorAll?.("iframe");
-      if (nestedIframes) {
-        debug(`Found ${nestedIframes.length} nested iframes`);
-        for (let i = 0; i < nestedIframes.length; i++) {
-          try {
-            const innerWin = nestedIframes[i].contentWindow;
-            if (innerWin) iframesToCheck.push(innerWin);
-          } catch (e) { /* cross-origin */ }
-        }
-      }
-    } catch (e) { /* skip */ }
-
-    for (const win of iframesToCheck) {
+    for (const win of getReaderWindows(reader)) {
       try {
         const doc = win.document;
         if (!doc) continue;
@@ -204,13 +223,9 @@ function capturePageScreenshot(reader: any): { screenshot: string | null; pageNu
                   const cropW = Math.round(visibleWidth * scaleX);
                   const cropH = Math.round(visibleHeight * scaleY);
 
-                  const tempCanvas = doc.createElement("canvas");
-                  tempCanvas.width = cropW;
-                  tempCanvas.height = cropH;
-                  const ctx = tempCanvas.getContext("2d");
-                  if (ctx) {
-                    ctx.drawImage(canvas, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH);
-                    dataUrl = tempCanvas.toDataURL("image/png");
+                  const cropped = cropCanvas(doc, canvas, cropX, cropY, cropW, cropH);
+                  if (cropped) {
+                    dataUrl = cropped;
                     debug(`Captured visible portion: ${cropW}x${cropH}, ${Math.round(dataUrl.length / 1024)}KB`);
                   } else {
                     dataUrl = canvas.toDataURL("image/png");
@@ -268,16 +283,121 @@ function capturePageScreenshot(reader: any): { screenshot: string | null; pageNu
  * Create an HTML div element, even in XUL documents.
  */
 function createHtmlDiv(doc: Document): HTMLElement {
-  if (doc.createElementNS) {
-    return doc.createElementNS("http://www.w3.org/1999/xhtml", "div") as HTMLElement;
+  return createHtmlElement(doc, "div");
+}
+
+/**
+ * Create the provider profile dropdown for the title bar.
+ * Switching profiles updates the active profile pref, then calls onChange.
+ */
+function createProfileSwitcher(doc: Document, onChange?: () => void): HTMLElement {
+  const select = createHtmlElement(doc, "select");
+  select.title = "Provider profile";
+  select.style.cssText = `
+    font-size: 11px;
+    max-width: 150px;
+    padding: 0 2px;
+    border: 1px solid #d0d0d0;
+    border-radius: 4px;
+    background: #fff;
+    color: #444;
+  `;
+
+  const activeId = getActiveProfile()?.id || "";
+  const options = [{ id: "", name: "Default settings" }, ...listProfileSummaries()];
+  for (const profile of options) {
+    const option = createHtmlElement(doc, "option");
+    option.value = profile.id;
+    option.textContent = profile.name;
+    option.selected = profile.id === activeId;
+    select.appendChild(option);
+  }
+
+  select.addEventListener("change", () => {
+    setActiveProfile(select.value);
+    if (onChange) onChange();
+  });
+  return select;
+}
+
+/**
+ * Create the mode dropdown for the title bar: translate, or one of the
+ * explanation modes. Switching sets `context.mode`, then calls onChange.
+ */
+function createModeSwitcher(doc: Document, context: TranslationContext, onChange: () => void): HTMLElement {
+  const select = createHtmlElement(doc, "select");
+  select.title = "What to do with the selection";
+  select.style.cssText = `
+    font-size: 11px;
+    max-width: 120px;
+    padding: 0 2px;
+    border: 1px solid #d0d0d0;
+    border-radius: 4px;
+    background: #fff;
+    color: #444;
+  `;
+
+  const options: Array<{ value: string; label: string }> = [
+    { value: "", label: "Translate" },
+    ...EXPLAIN_MODES.map((mode) => ({ value: mode, label: MODE_LABELS[mode] })),
+  ];
+  for (const { value, label } of options) {
+    const option = createHtmlElement(doc, "option");
+    option.value = value;
+    option.textContent = label;
+    option.selected = value === (context.mode || "");
+    select.appendChild(option);
   }
-  return doc.createElement("div");
+
+  select.addEventListener("change", () => {
+    context.mode = (select.value || null) as ExplainMode | null;
+    onChange();
+  });
+  return select;
+}
+
+/**
+ * Create the refresh button that re-translates without the cache.
+ */
+function createRefreshButton(doc: Document, onRefresh: () => void): HTMLElement {
+  return createTitleButton(doc, "↻", "Translate again (skip cache)", onRefresh);
+}
+
+/**
+ * Create a small button for the popup title bar.
+ */
+function createTitleButton(doc: Document, label: string, title: string, onClick: () => void): HTMLElement {
+  const button = createHtmlElement(doc, "button");
+  button.textContent = label;
+  button.title = title;
+  button.style.cssText = `
+    font-size: 12px;
+    line-height: 1;
+    padding: 1px 5px;
+    border: 1px solid #d0d0d0;
+    border-radius: 4px;
+    background: #fff;
+    color: #555;
+    cursor: pointer;
+  `;
+  button.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onClick();
+  });
+  return button;
 }
 
 /**
  * Create the title bar element for the popup.
+ * Shows a profile switcher when provider profiles are configured, a
+ * refresh button when the popup can re-translate, then `extraControls`.
  */
-function createTitleBar(doc: Document): HTMLElement {
+function createTitleBar(
+  doc: Document,
+  onRetranslate?: (bypassCache: boolean) => void,
+  extraControls: HTMLElement[] = [],
+): HTMLElement {
   const titleBar = createHtmlDiv(doc);
   titleBar.style.cssText = `
     font-size: 11px;
@@ -288,20 +408,44 @@ function createTitleBar(doc: Document): HTMLElement {
     border-bottom: 1px solid #e0e0e0;
     width: 100%;
     flex-shrink: 0;
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 6px;
+    white-space: normal;
   `;
-  titleBar.textContent = "🌐 Vibe Translate";
+
+  const label = createHtmlElement(doc, "span");
+  label.textContent = "🌐 Vibe Translate";
+  const provider = createHtmlElement(doc, "span");
+  provider.setAttribute("data-role", "provider");
+  provider.style.cssText = "font-weight: normal; color: #999; margin-left: 4px;";
+  label.appendChild(provider);
+  titleBar.appendChild(label);
+
+  const controls = createHtmlElement(doc, "span");
+  controls.style.cssText = "display: flex; align-items: center; gap: 4px;";
+  if (listProfileSummaries().length > 0) {
+    controls.appendChild(createProfileSwitcher(doc, onRetranslate && (() => onRetranslate(false))));
+  }
+  if (onRetranslate) {
+    controls.appendChild(createRefreshButton(doc, () => onRetranslate(true)));
+  }
+  for (const control of extraControls) controls.appendChild(control);
+  if (controls.firstChild) titleBar.appendChild(controls);
   return titleBar;
 }
 
 /**
  * Set the content of a container to show loading state.
  */
-function setLoadingState(container: HTMLElement, doc: Document): void {
+function setLoadingState(container: HTMLElement, doc: Document, loadingText = "Translating..."): void {
   const titleBar = container.querySelector("[data-role='title']");
   while (container.firstChild) {
     container.removeChild(container.firstChild);
   }
   if (titleBar) {
+    setAnsweringProvider(titleBar as HTMLElement, "");
     container.appendChild(titleBar);
   } else {
     const newTitle = createTitleBar(doc);
@@ -312,12 +456,22 @@ function setLoadingState(container: HTMLElement, doc: Document): void {
   const loading = createHtmlDiv(doc);
   loading.setAttribute("data-role", "content");
   loading.style.cssText = "color: #888; font-style: italic;";
-  loading.textContent = "Translating...";
+  loading.textContent = loadingText;
   container.appendChild(loading);
 }
 
 /**
- * Set the content of a container to show translation result.
+ * Show which provider answered in the title bar (empty string clears it).
+ */
+function setAnsweringProvider(container: HTMLElement, provider: string): void {
+  const providerEl = container.querySelector("[data-role='provider']");
+  if (providerEl) {
+    providerEl.textContent = provider ? `· via ${provider}` : "";
+  }
+}
+
+/**
+ * Set the content of a container to show plain text (the streamed answer).
  */
 function setTranslationResult(container: HTMLElement, doc: Document, result: string): void {
   const contentEl = container.querySelector("[data-role='content']");
@@ -335,6 +489,47 @@ function setTranslationResult(container: HTMLElement, doc: Document, result: str
   }
 }
 
+/**
+ * Set the content of a container to show the finished, sectioned result.
+ */
+function setStructuredResult(
+  container: HTMLElement,
+  doc: Document,
+  result: StructuredTranslation,
+  sourceText: string,
+  actions: ResultAction[] = [],
+): void {
+  const contentEl = container.querySelector("[data-role='content']");
+  if (contentEl) {
+    renderTranslation(doc, contentEl as HTMLElement, result, sourceText, actions);
+  }
+}
+
+/**
+ * Popup actions that keep the translation in Zotero: a highlight on the
+ * selection (needs its position) and the parent item's translation note.
+ */
+function getSaveActions(context: TranslationContext, result: StructuredTranslation): ResultAction[] {
+  // Regions have no text to highlight or quote
+  if (!context.paper || !context.text) return [];
+  const source = toPaperSource(context.paper);
+  const actions: ResultAction[] = [];
+  const position = context.position;
+  if (position && source.attachmentKey) {
+    actions.push({
+      label: "Highlight",
+      title: "Highlight with translation as comment",
+      run: () => saveAsAnnotation(source, position, context.text, result),
+    });
+  }
+  actions.push({
+    label: "Add to note",
+    title: "Append to the item's Vibe Translate note",
+    run: () => appendToNote(source, context.text, result, context.pageNumber),
+  });
+  return actions;
+}
+
 /**
  * Set the content of a container to show an error.
  */
@@ -357,52 +552,148 @@ function setErrorState(container: HTMLElement, doc: Document, errorMsg: string,
   }
 }
 
+// ============ In-flight translation ============
+// Only one translation runs at a time: starting a new one (new selection,
+// refresh, profile switch) or dismissing its popup aborts the request.
+let _activeTranslation: { container: HTMLElement; controller: AbortController } | null = null;
+
+/**
+ * Abort the in-flight translation. With a container, only if it belongs to it.
+ */
+function cancelTranslation(container?: HTMLElement): void {
+  if (!_activeTranslation) return;
+  if (container && _activeTranslation.container !== container) return;
+  debug("Cancelling in-flight translation");
+  _activeTranslation.controller.abort();
+  _activeTranslation = null;
+}
+
+/**
+ * Set the content of a container to show that the provider timed out.
+ * Kept apart from API errors: the request may well succeed on a second try.
+ */
+function setTimeoutState(container: HTMLElement, doc: Document, message: string): void {
+  const contentEl = container.querySelector("[data-role='content']");
+  if (contentEl) {
+    (contentEl as HTMLElement).style.cssText = `
+      color: #b26a00;
+      font-style: normal;
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-word;
+      line-height: 1.5;
+    `;
+    contentEl.textContent = `⏱ Timed out: ${message}\n\nClick ↻ to try again, or raise the request timeout in Vibe Translate settings.`;
+  }
+}
+
 /**
  * Perform translation and update the container with results.
  */
 async function performTranslation(
   container: HTMLElement,
   doc: Document,
-  context: TranslationContext
+  context: TranslationContext,
+  bypassCache = false,
 ): Promise<void> {
   debug(`Starting translation for: "${context.text.substring(0, 50)}..."`);
-  debug(`Has screenshot: ${!!context.pageScreenshot}, page: ${context.pageNumber}`);
+  debug(`Has screenshot: ${!!context.pageScreenshot}, text context: ${!!context.textContext}, page: ${context.pageNumber}`);
+
+  cancelTranslation();
+  const controller = createAbortController();
+  _activeTranslation = { container, controller };
 
   try {
     const input: TranslationInput = {
       text: context.text,
       pageScreenshot: context.pageScreenshot,
       pageNumber: context.pageNumber,
+      paper: context.paper,
+      textContext: context.textContext,
     };
 
     debug("Calling translateText...");
-    const result = await translateText(input);
-    debug(`Translation result received (${result.length} chars)`);
+    const { text, result, provider, cached } = await translateText(input, (partial) => {
+      if (container.parentNode) {
+        setTranslationResult(container, doc, formatPartialTranslation(partial));
+      } else {
+        // Popup closed by Zotero (e.g. selection cleared): stop streaming
+        controller.abort();
+      }
+    }, { bypassCache, signal: controller.signal, kind: context.mode || (context.text ? undefined : "region") });
+    debug(`Translation result received (${text.length} chars, ${result.type})`);
 
     if (container.parentNode) {
-      setTranslationResult(container, doc, result);
+      setStructuredResult(container, doc, result, context.text, getSaveActions(context, result));
+      setAnsweringProvider(container, cached ? `${provider} (cached)` : provider);
+      if (text) container.appendChild(createFollowUpBox(doc, input, text, !context.mode && !!context.text));
       debug("Translation result displayed in popup");
     } else {
       debug("Container no longer in DOM, skipping result display");
     }
 
+    // Explanations are not translations, and regions have no text: keep
+    // both out of history and wordbook
+    if (context.mode || !context.text) return;
+
+    recordTranslation({
+      text: context.text,
+      translation: formatTranslation(result),
+      result,
+      pageNumber: context.pageNumber,
+      position: context.position,
+      paper: context.paper && toPaperSource(context.paper),
+    });
+
     // Save to wordbook (fire-and-forget, won't affect translation display)
     try {
       const isSingleWord = !context.text.includes(" ") && !context.text.includes("\n");
-      saveWord(context.text, result, isSingleWord, context.pageNumber);
+      saveWord(context.text, result, isSingleWord, context.pageNumber, context.paper && toPaperSource(context.paper), context.position);
     } catch (_e) {
       // Silently ignore wordbook save errors
     }
   } catch (e: any) {
+    if (e instanceof CancelledError || controller.signal.aborted) {
+      debug("Translation cancelled");
+      return;
+    }
+    if (e instanceof TimeoutError) {
+      debug(`Translation timed out: ${e.message}`);
+      if (container.parentNode) setTimeoutState(container, doc, e.message);
+      return;
+    }
     error("Translation error", e);
     if (container.parentNode) {
       const errorMsg = e?.message || String(e);
       const errorDetails = e?.stack ? String(e.stack) : undefined;
       setErrorState(container, doc, errorMsg, errorDetails);
     }
+  } finally {
+    if (_activeTranslation?.controller === controller) {
+      _activeTranslation = null;
+    }
   }
 }
 
+function getLoadingText(context: TranslationContext): string {
+  if (context.mode) return `${MODE_LABELS[context.mode]}...`;
+  return context.text ? "Translating..." : "Reading region...";
+}
+
+/**
+ * Reset the popup to its loading state and translate again (after a profile
+ * or mode switch, or from the refresh button with bypassCache).
+ */
+function retranslate(
+  container: HTMLElement,
+  doc: Document,
+  context: TranslationContext,
+  bypassCache = false,
+): void {
+  setLoadingState(container, doc, getLoadingText(context));
+  performTranslation(container, doc, context, bypassCache);
+}
+
 /**
  * Check if auto-translate is enabled.
  */
@@ -415,31 +706,80 @@ function isAutoTranslateEnabled(): boolean {
 }
 
 /**
- * Prepare translation context (screenshot + page number) from reader.
+ * The label pdf.js shows for a page (its `data-page-label`), or null when
+ * the PDF defines no page labels or the page is not in the view.
  */
-function prepareContext(selectedText: string, reader: any): TranslationContext {
-  let enableContext = true;
-  try {
-    const val = Zotero.Prefs.get(`${PREF_PREFIX}.enableContext`, true);
-    if (val === false) enableContext = false;
-  } catch (e) { /* default to true */ }
+function getPageLabel(reader: any, pageIndex: number): string | null {
+  for (const win of getReaderWindows(reader)) {
+    try {
+      const page = win.document?.querySelector(`.page[data-page-number="${pageIndex + 1}"]`);
+      const label = page?.getAttribute("data-page-label");
+      if (label) return label;
+    } catch (e) { /* try next window */ }
+  }
+  return null;
+}
 
-  debug(`Context (screenshot) enabled: ${enableContext}`);
+/**
+ * Prepare translation context (screenshot and/or surrounding text, page
+ * number) from the reader, as chosen by the `contextMode` pref.
+ * `position` is the selection's page and rects, when Zotero reports them
+ * (its page label is looked up in the reader when missing);
+ * `explainMode` the explanation mode picked, null to translate.
+ */
+function prepareContext(
+  selectedText: string,
+  reader: any,
+  position: SourcePosition | null = null,
+  explainMode: ExplainMode | null = null,
+): TranslationContext {
+  const pageIndex = position?.pageIndex ?? null;
+  if (position && !position.pageLabel) {
+    const pageLabel = getPageLabel(reader, position.pageIndex);
+    if (pageLabel) position = { ...position, pageLabel };
+  }
+  const mode = getContextMode();
+  debug(`Context mode: ${mode}`);
 
-  const { screenshot, pageNumber } = enableContext
+  const { screenshot, pageNumber } = mode === "screenshot" || mode === "both"
     ? capturePageScreenshot(reader)
     : { screenshot: null, pageNumber: null };
+  const textContext = mode === "text" || mode === "both"
+    ? extractTextContext(reader, selectedText, pageIndex)
+    : null;
 
-  if (screenshot) {
-    log(`Got selection "${selectedText.substring(0, 50)}..." with page ${pageNumber} screenshot`);
-  } else {
-    log(`Got selection "${selectedText.substring(0, 50)}..." (no screenshot)`);
-  }
+  const parts = [screenshot && `page ${pageNumber} screenshot`, textContext && "text context"].filter(Boolean);
+  log(`Got selection "${selectedText.substring(0, 50)}..." (${parts.length > 0 ? parts.join(", ") : "no context"})`);
 
   return {
     text: selectedText,
     pageScreenshot: screenshot,
-    pageNumber,
+    pageNumber: pageNumber ?? (pageIndex !== null ? pageIndex + 1 : null),
+    paper: getPaperMetadata(reader),
+    textContext,
+    position,
+    mode: explainMode,
+  };
+}
+
+/** The reader's annotation params for a text selection */
+interface SelectionAnnotation {
+  text: string;
+  pageLabel?: string;
+  position?: { pageIndex?: number; rects?: number[][] };
+}
+
+/**
+ * The selection's position (and page label) from the reader's annotation
+ * params.
+ */
+function toSourcePosition(annotation: SelectionAnnotation): SourcePosition | null {
+  const position = annotation.position;
+  if (typeof position?.pageIndex !== "number") return null;
+  return {
+    pageIndex: position.pageIndex,
+    rects: Array.isArray(position.rects) ? position.rects : [],
+    ...(annotation.pageLabel ? { pageLabel: annotation.pageLabel } : {}),
   };
 }
 
@@ -449,6 +789,7 @@ let _lastSelectionEvent: {
   doc: Document;
   append: (element: Element) => void;
   text: string;
+  position: SourcePosition | null;
 } | null = null;
 
 /**
@@ -457,12 +798,13 @@ let _lastSelectionEvent: {
 export function onReaderTextSelection(event: {
   reader: any;
   doc: Document;
-  params: { annotation: { text: string } };
+  params: { annotation: SelectionAnnotation };
   append: (element: Element) => void;
 }): void {
   debug("onReaderTextSelection called");
   const { reader, doc, params, append } = event;
   const selectedText = params.annotation.text?.trim();
+  const selectionPosition = toSourcePosition(params.annotation);
 
   if (!selectedText || selectedText.length === 0) {
     debug("No text selected, returning");
@@ -475,28 +817,28 @@ export function onReaderTextSelection(event: {
   try { installMouseUpTracker(reader); } catch (_e) { /* ignore */ }
 
   // Store for keyboard shortcut use
-  _lastSelectionEvent = { reader, doc, append, text: selectedText };
+  _lastSelectionEvent = { reader, doc, append, text: selectedText, position: selectionPosition };
 
   const autoTranslate = isAutoTranslateEnabled();
   debug(`Auto-translate enabled: ${autoTranslate}`);
 
   if (autoTranslate) {
     // Auto-translate: immediately start translation
-    const context = prepareContext(selectedText, reader);
+    const context = prepareContext(selectedText, reader, selectionPosition);
     const position = getPopupPosition();
     debug(`Popup position mode: ${position}`);
 
-    if (position === "popup") {
+    if (position === "popup" && !hasPinnedPanel()) {
       debug("Building inline popup...");
-      buildInlinePopup(doc, append, context);
+      buildInlinePopup(doc, append, context, reader);
     } else {
       debug("Showing corner popup...");
-      showCornerPopup(context, position, reader);
+      showCornerPopup(context, position !== "popup" ? position : "bottom-right", reader);
     }
   } else {
     // Manual mode: show a "Translate" button
     debug("Manual mode: showing translate button");
-    buildTranslateButton(doc, append, selectedText, reader);
+    buildTranslateButton(doc, append, selectedText, reader, selectionPosition);
   }
 }
 
@@ -517,11 +859,13 @@ export function triggerTranslation(text?: string, reader?: any, doc?: Document,
 
   debug(`Triggering translation for: "${selText.substring(0, 50)}..."`);
 
-  const context = prepareContext(selText, selReader);
+  // The stored position only applies when translating the stored selection
+  const selPosition = !text || text === _lastSelectionEvent?.text ? _lastSelectionEvent?.position ?? null : null;
+  const context = prepareContext(selText, selReader, selPosition);
   const position = getPopupPosition();
 
-  if (position === "popup" && selDoc && selAppend) {
-    buildInlinePopup(selDoc, selAppend, context);
+  if (position === "popup" && selDoc && selAppend && !hasPinnedPanel()) {
+    buildInlinePopup(selDoc, selAppend, context, selReader);
   } else if (selReader) {
     showCornerPopup(context, position !== "popup" ? position : "bottom-right", selReader);
   }
@@ -536,15 +880,17 @@ function buildTranslateButton(
   doc: Document,
   append: (element: Element) => void,
   selectedText: string,
-  reader: any
+  reader: any,
+  selectionPosition: SourcePosition | null = null,
 ): void {
   const mainWin = Zotero.getMainWindow();
   if (!mainWin) { debug("No main window"); return; }
   const mainDoc = mainWin.document;
 
-  // Remove previous dot
+  // Remove previous dot and mode picker
   const prev = mainDoc.getElementById("vibe-translate-dot");
   if (prev) prev.remove();
+  mainDoc.getElementById(MODE_PICKER_ID)?.remove();
 
   // Pre-embed a hidden container in the Zotero popup for translation results (Issue 1 fix)
   const inlineContainer = doc.createElement("div");
@@ -598,17 +944,20 @@ function buildTranslateButton(
   dot.addEventListener("mouseleave", () => { dot.style.transform = "scale(1)"; dot.style.boxShadow = "0 2px 6px rgba(102,126,234,0.5)"; });
 
   let pollInterval: ReturnType<typeof setInterval> | null = null;
+  let picker: HTMLElement | null = null;
   const cleanup = () => {
     try { dot.remove(); } catch (_e) {}
+    try { picker?.remove(); } catch (_e) {}
     if (pollInterval) clearInterval(pollInterval);
   };
 
-  dot.addEventListener("click", (e: Event) => {
-    e.preventDefault(); e.stopPropagation(); cleanup();
-    const context = prepareContext(selectedText, reader);
+  // Translate (mode null) or explain the selection
+  const start = (mode: ExplainMode | null) => {
+    cleanup();
+    const context = prepareContext(selectedText, reader, selectionPosition, mode);
     const position = getPopupPosition();
 
-    if (position === "popup" && inlineContainer.parentNode) {
+    if (position === "popup" && inlineContainer.parentNode && !hasPinnedPanel()) {
       // Use the pre-embedded container in the Zotero popup
       debug("Using pre-embedded inline container");
       inlineContainer.style.cssText = `
@@ -626,14 +975,21 @@ function buildTranslateButton(
         box-sizing: border-box;
       `;
       // Add title bar
-      const titleBar = createTitleBar(doc);
+      const titleBar = createTitleBar(
+        doc,
+        (bypassCache) => retranslate(inlineContainer, doc, context, bypassCache),
+        [
+          createModeSwitcher(doc, context, () => retranslate(inlineContainer, doc, context)),
+          createPopOutButton(doc, inlineContainer, context, reader),
+        ],
+      );
       titleBar.setAttribute("data-role", "title");
       inlineContainer.appendChild(titleBar);
       // Add loading state
       const contentEl = doc.createElement("div");
       contentEl.setAttribute("data-role", "content");
       contentEl.style.cssText = "color: #888; font-style: italic;";
-      contentEl.textContent = "Translating...";
+      contentEl.textContent = getLoadingText(context);
       inlineContainer.appendChild(contentEl);
       // Start translation
       performTranslation(inlineContainer, doc, context);
@@ -642,10 +998,18 @@ function buildTranslateButton(
       debug("Inline container gone, using corner popup");
       showCornerPopup(context, position !== "popup" ? position : "bottom-right", reader);
     }
+  };
+
+  dot.addEventListener("click", (e: Event) => {
+    e.preventDefault(); e.stopPropagation();
+    start(null);
   });
+  picker = buildModePicker(mainDoc, Math.max(4, leftPos) + 26, Math.max(4, topPos) + 3, start);
 
   // Append to main window
-  (mainDoc.getElementById("browser") || mainDoc.getElementById("main-window") || mainDoc.documentElement)?.appendChild(dot);
+  const host = mainDoc.getElementById("browser") || mainDoc.getElementById("main-window") || mainDoc.documentElement;
+  host?.appendChild(dot);
+  host?.appendChild(picker);
   debug(`Translate dot at (${leftPos}, ${topPos}) in main window`);
 
   // Poll for popup removal
@@ -654,7 +1018,7 @@ function buildTranslateButton(
   }, 500);
 
   // Clean up on click elsewhere
-  const onMainClick = (ev: Event) => { if (!dot.contains(ev.target as Node)) { cleanup(); mainDoc.removeEventListener("mousedown", onMainClick, true); } };
+  const onMainClick = (ev: Event) => { if (!dot.contains(ev.target as Node) && !picker?.contains(ev.target as Node)) { cleanup(); mainDoc.removeEventListener("mousedown", onMainClick, true); } };
   setTimeout(() => mainDoc.addEventListener("mousedown", onMainClick, true), 200);
 
   // Clean up on scroll (dot position becomes stale with position:fixed)
@@ -671,13 +1035,49 @@ function buildTranslateButton(
   } catch (_e) {}
 }
 
+/**
+ * Build the small ▾ chip next to the translate dot. Clicking it lists the
+ * explanation modes; picking one calls onPick with it.
+ */
+function buildModePicker(mainDoc: Document, left: number, top: number, onPick: (mode: ExplainMode) => void): HTMLElement {
+  const picker = createHtmlDiv(mainDoc);
+  picker.id = MODE_PICKER_ID;
+  picker.title = "Explain, summarize, paraphrase...";
+  picker.style.cssText = `position:fixed;top:${top}px;left:${left}px;width:16px;height:16px;border-radius:50%;background:#fff;border:1px solid #c5cbf5;color:#667eea;cursor:pointer;z-index:2147483647;pointer-events:auto;box-shadow:0 1px 4px rgba(102,126,234,0.35);display:flex;align-items:center;justify-content:center;font-size:9px;line-height:1;user-select:none;`;
+  picker.textContent = "▾";
+
+  const menu = createHtmlDiv(mainDoc);
+  menu.style.cssText = `position:absolute;top:20px;left:0;display:none;flex-direction:column;min-width:190px;padding:4px 0;background:#fff;border:1px solid #d0d0d0;border-radius:6px;box-shadow:0 4px 16px rgba(0,0,0,0.15);font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;font-size:12px;color:#333;`;
+  for (const mode of EXPLAIN_MODES) {
+    const item = createHtmlDiv(mainDoc);
+    item.textContent = MODE_LABELS[mode];
+    item.style.cssText = "padding:4px 12px;cursor:pointer;white-space:nowrap;";
+    item.addEventListener("mouseenter", () => { item.style.background = "#eef0ff"; });
+    item.addEventListener("mouseleave", () => { item.style.background = ""; });
+    item.addEventListener("click", (e: Event) => {
+      e.preventDefault(); e.stopPropagation();
+      onPick(mode);
+    });
+    menu.appendChild(item);
+  }
+  picker.appendChild(menu);
+
+  picker.addEventListener("click", (e: Event) => {
+    if (menu.contains(e.target as Node)) return;
+    e.preventDefault(); e.stopPropagation();
+    menu.style.display = menu.style.display === "none" ? "flex" : "none";
+  });
+  return picker;
+}
+
 /**
  * Build content that gets appended into Zotero's native text selection popup.
  */
 function buildInlinePopup(
   doc: Document,
   append: (element: Element) => void,
-  context: TranslationContext
+  context: TranslationContext,
+  reader: any,
 ): void {
   const container = doc.createElement("div");
   container.id = TRANSLATE_CONTENT_ID;
@@ -697,7 +1097,14 @@ function buildInlinePopup(
   `;
 
   // Title bar
-  const titleBar = createTitleBar(doc);
+  const titleBar = createTitleBar(
+    doc,
+    (bypassCache) => retranslate(container, doc, context, bypassCache),
+    [
+      createModeSwitcher(doc, context, () => retranslate(container, doc, context)),
+      createPopOutButton(doc, container, context, reader),
+    ],
+  );
   titleBar.setAttribute("data-role", "title");
   container.appendChild(titleBar);
 
@@ -705,7 +1112,7 @@ function buildInlinePopup(
   const contentEl = doc.createElement("div");
   contentEl.setAttribute("data-role", "content");
   contentEl.style.cssText = "color: #888; font-style: italic;";
-  contentEl.textContent = "Translating...";
+  contentEl.textContent = getLoadingText(context);
   container.appendChild(contentEl);
 
   append(container);
@@ -715,6 +1122,19 @@ function buildInlinePopup(
   performTranslation(container, doc, context);
 }
 
+/**
+ * Button that moves an inline translation into a pinned floating panel,
+ * where the following selections are translated too.
+ */
+function createPopOutButton(doc: Document, inlineContainer: HTMLElement, context: TranslationContext, reader: any): HTMLElement {
+  return createTitleButton(doc, "📌", "Pin in a floating panel", () => {
+    cancelTranslation(inlineContainer);
+    inlineContainer.remove();
+    setPanelPinned(true);
+    showCornerPopup(context, "bottom-right", reader);
+  });
+}
+
 interface Bounds {
   left: number;
   top: number;
@@ -774,13 +1194,15 @@ function getReaderPaneBounds(reader: any): Bounds | null {
 }
 
 /**
- * Show a popup at a fixed corner of the reader pane.
- * Reuses existing popup if present (updates content instead of creating new one).
+ * Show a floating panel, first at a corner of the reader pane (or where the
+ * user last moved it in this window). Reuses an open panel in place
+ * (updates content instead of creating a new one).
  */
 function showCornerPopup(
   context: TranslationContext,
   position: PopupPosition,
-  reader: any
+  reader: any,
+  bypassCache = false,
 ): void {
   const win = Zotero.getMainWindow();
   if (!win) {
@@ -803,6 +1225,7 @@ function showCornerPopup(
 
   const width = 350;
   const popupHeight = 300;
+  const saved = getSavedGeometry(win);
 
   const readerBounds = getReaderPaneBounds(reader);
   const bounds: Bounds = readerBounds || {
@@ -838,44 +1261,65 @@ function showCornerPopup(
   left = Math.max(0, Math.min(left, win.innerWidth - width));
   top = Math.max(0, Math.min(top, win.innerHeight - popupHeight));
 
-  container.style.cssText = `
-    position: fixed;
-    left: ${left}px;
-    top: ${top}px;
-    width: ${width}px;
-    max-height: ${popupHeight}px;
-    background: #ffffff;
-    border: 1px solid #d0d0d0;
-    border-radius: 8px;
-    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
-    z-index: 2147483647;
-    padding: 10px 14px;
-    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
-    font-size: 13px;
-    color: #333;
-    line-height: 1.6;
-    overflow-y: auto;
-    white-space: pre-wrap;
-    word-break: break-word;
-    box-sizing: border-box;
-    pointer-events: auto;
-  `;
+  // A panel that is already open stays where the user put it
+  if (isNew) {
+    container.style.cssText = `
+      position: fixed;
+      left: ${saved ? saved.left : left}px;
+      top: ${saved ? saved.top : top}px;
+      width: ${saved ? saved.width : width}px;
+      ${saved ? `height: ${saved.height}px; max-height: none;` : `max-height: ${popupHeight}px;`}
+      ${getResizableStyle()}
+      background: #ffffff;
+      border: 1px solid #d0d0d0;
+      border-radius: 8px;
+      box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+      z-index: 2147483647;
+      padding: 10px 14px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      font-size: 13px;
+      color: #333;
+      line-height: 1.6;
+      overflow-y: auto;
+      white-space: pre-wrap;
+      word-break: break-word;
+      box-sizing: border-box;
+      pointer-events: auto;
+    `;
+  }
 
   // Clear and rebuild content
   while (container.firstChild) {
     container.removeChild(container.firstChild);
   }
 
-  // Title bar
-  const titleBar = createTitleBar(doc);
+  // Title bar: drag handle, with pin and close buttons
+  const pinButton = createTitleButton(doc, "📌", "", () => {
+    setPanelPinned(!isPanelPinned());
+    updatePinButton(pinButton);
+  });
+  updatePinButton(pinButton);
+  const closeButton = createTitleButton(doc, "✕", "Close", () => {
+    cancelTranslation(container);
+    container.remove();
+    setPanelPinned(false);
+  });
+  // Modes work on text; regions are always transcribed and translated
+  const modeSwitcher = context.text ? [createModeSwitcher(doc, context, () => retranslate(container, doc, context))] : [];
+  const titleBar = createTitleBar(
+    doc,
+    (bypassCache) => retranslate(container, doc, context, bypassCache),
+    [...modeSwitcher, pinButton, closeButton],
+  );
   titleBar.setAttribute("data-role", "title");
+  makeDraggable(container, win, titleBar);
   container.appendChild(titleBar);
 
   // Loading state
   const contentEl = createHtmlDiv(doc);
   contentEl.setAttribute("data-role", "content");
   contentEl.style.cssText = "color: #888; font-style: italic;";
-  contentEl.textContent = "Translating...";
+  contentEl.textContent = getLoadingText(context);
   container.appendChild(contentEl);
 
   if (isNew) {
@@ -903,9 +1347,16 @@ function showCornerPopup(
       return;
     }
 
-    // Close on click outside (but not on the container itself)
+    makeResizable(container, win);
+
+    // Close on click outside (but not on the container itself), unless pinned
     const removeOnClick = (e: any) => {
-      if (container.contains(e.target)) return;
+      if (!container.isConnected) {
+        doc.removeEventListener("mousedown", removeOnClick);
+        return;
+      }
+      if (container.contains(e.target) || isPanelPinned()) return;
+      cancelTranslation(container);
       container.remove();
       doc.removeEventListener("mousedown", removeOnClick);
       debug("Corner popup removed on outside click");
@@ -914,5 +1365,42 @@ function showCornerPopup(
   }
 
   // Start translation asynchronously
-  performTranslation(container, doc, context);
+  performTranslation(container, doc, context, bypassCache);
+}
+
+function updatePinButton(button: HTMLElement): void {
+  const pinned = isPanelPinned();
+  button.title = pinned ? "Unpin (close on outside click)" : "Pin (keep open and show every translation here)";
+  button.style.background = pinned ? "#e8ecfd" : "#fff";
+  button.style.borderColor = pinned ? "#667eea" : "#d0d0d0";
+}
+
+/**
+ * Let the user draw a rectangle on the page, then transcribe and translate
+ * the cropped region with the vision model, in a corner popup.
+ */
+export async function translateRegion(reader: any): Promise<void> {
+  const capture = await selectRegion(reader);
+  if (!capture) return;
+  const context: TranslationContext = {
+    text: "",
+    pageScreenshot: capture.image,
+    pageNumber: capture.pageNumber,
+    paper: getPaperMetadata(reader),
+    textContext: null,
+    position: null,
+    mode: null,
+  };
+  const popupPosition = getPopupPosition();
+  showCornerPopup(context, popupPosition !== "popup" ? popupPosition : "bottom-right", reader);
+}
+
+/**
+ * Translate `text` from `reader` again without the cache, in a corner
+ * popup (used by the history section).
+ */
+export function retranslateText(text: string, reader: any, position: SourcePosition | null): void {
+  const context = prepareContext(text, reader, position);
+  const popupPosition = getPopupPosition();
+  showCornerPopup(context, popupPosition !== "popup" ? popupPosition : "bottom-right", reader, true);
 }
\ No newline at end of file
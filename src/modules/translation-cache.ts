@@ -0,0 +1,182 @@
+/**
+ * Translation cache - persisted LRU cache in front of the LLM.
+ *
+ * - Keyed by normalized text, target language, provider/model and prompt
+ *   version, plus the paper and context mode: prompts carry the paper and
+ *   the surrounding text, so answers are not shared across papers
+ * - Stored as cache/translations.json inside the wordbook directory
+ *   (a subdirectory, so wordbook scans of *.json never see it)
+ * - Entries are kept in least- to most-recently-used order; the oldest are
+ *   evicted once `cache.maxEntries` is exceeded
+ * - Writes are batched so a burst of lookups causes a single disk write
+ */
+
+import { debug, error } from "./debug";
+import { getWordbookDir, joinPath } from "./wordbook";
+import { sha256, toHex } from "./sigv4";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+const CACHE_DIRNAME = "cache";
+const CACHE_FILENAME = "translations.json";
+const SAVE_DELAY_MS = 2000;
+const DEFAULT_MAX_ENTRIES = 2000;
+
+export interface CacheKeyParts {
+  text: string;
+  targetLanguage: string;
+  provider: string;
+  modelId: string;
+  promptVersion: string;
+  /** "<libraryID>/<itemKey>" of the paper, "" outside a paper */
+  paperKey: string;
+  contextMode: string;
+}
+
+export interface CachedTranslation {
+  text: string;
+  /** Label of the provider that produced the translation */
+  provider: string;
+  createdAt: string;
+}
+
+let _entries: Map<string, CachedTranslation> | null = null;
+let _saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function isCacheEnabled(): boolean {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.cache.enabled`, true);
+    if (typeof val === "boolean") return val;
+  } catch (e) {
+    // preference not set
+  }
+  return true;
+}
+
+function getMaxEntries(): number {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.cache.maxEntries`, true);
+    if (typeof val === "number" && val >= 0) return val;
+  } catch (e) {
+    // preference not set
+  }
+  return DEFAULT_MAX_ENTRIES;
+}
+
+function getCacheFile(): any {
+  const file = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
+  file.initWithPath(joinPath(getWordbookDir(), CACHE_DIRNAME, CACHE_FILENAME));
+  return file;
+}
+
+/**
+ * Whitespace differences never change a translation; case only matters
+ * for multi-word text (sentence starts, proper nouns in context).
+ */
+function normalizeText(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.includes(" ") ? collapsed : collapsed.toLowerCase();
+}
+
+function makeKey(parts: CacheKeyParts): string {
+  const raw = JSON.stringify([
+    normalizeText(parts.text),
+    parts.targetLanguage,
+    parts.provider,
+    parts.modelId,
+    parts.promptVersion,
+    parts.paperKey,
+    parts.contextMode,
+  ]);
+  return toHex(sha256(new TextEncoder().encode(raw)));
+}
+
+function load(): Map<string, CachedTranslation> {
+  if (_entries) return _entries;
+  _entries = new Map();
+  try {
+    const file = getCacheFile();
+    if (file.exists()) {
+      const stored = JSON.parse(Zotero.File.getContents(file));
+      for (const [key, entry] of Object.entries<CachedTranslation>(stored?.entries || {})) {
+        if (entry && typeof entry.text === "string") _entries.set(key, entry);
+      }
+      debug(`Translation cache loaded (${_entries.size} entries)`);
+    }
+  } catch (e) {
+    error("Failed to load translation cache, starting empty", e);
+  }
+  return _entries;
+}
+
+function evict(entries: Map<string, CachedTranslation>): void {
+  const maxEntries = getMaxEntries();
+  // Map iteration order is insertion order: the first key is least recently used
+  for (const key of entries.keys()) {
+    if (entries.size <= maxEntries) break;
+    entries.delete(key);
+  }
+}
+
+function scheduleSave(): void {
+  if (_saveTimer) return;
+  _saveTimer = setTimeout(() => {
+    _saveTimer = null;
+    flushTranslationCache();
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * Write pending changes to disk now (also called on shutdown).
+ */
+export function flushTranslationCache(): void {
+  if (_saveTimer) {
+    clearTimeout(_saveTimer);
+    _saveTimer = null;
+  }
+  if (!_entries) return;
+  try {
+    const file = getCacheFile();
+    const dir = file.parent;
+    if (!dir.exists()) {
+      dir.create(Ci.nsIFile.DIRECTORY_TYPE, 0o755);
+    }
+    Zotero.File.putContents(file, JSON.stringify({ version: 1, entries: Object.fromEntries(_entries) }));
+    debug(`Translation cache saved (${_entries.size} entries)`);
+  } catch (e) {
+    error("Failed to save translation cache", e);
+  }
+}
+
+export function getCachedTranslation(parts: CacheKeyParts): CachedTranslation | null {
+  const entries = load();
+  const key = makeKey(parts);
+  const entry = entries.get(key);
+  if (!entry) return null;
+
+  // Re-insert to mark as most recently used
+  entries.delete(key);
+  entries.set(key, entry);
+  scheduleSave();
+  return entry;
+}
+
+export function putCachedTranslation(parts: CacheKeyParts, text: string, provider: string): void {
+  const entries = load();
+  const key = makeKey(parts);
+  entries.delete(key);
+  entries.set(key, { text, provider, createdAt: new Date().toISOString() });
+  evict(entries);
+  scheduleSave();
+}
+
+/**
+ * Remove every cached translation. Returns the number of entries dropped.
+ */
+export function clearTranslationCache(): number {
+  const entries = load();
+  const count = entries.size;
+  entries.clear();
+  flushTranslationCache();
+  debug(`Translation cache cleared (${count} entries)`);
+  return count;
+}
@@ -0,0 +1,140 @@
+/**
+ * Translation history - what was translated this session, plus the earlier
+ * translations of a paper kept in the wordbook, for the item pane section.
+ *
+ * Session entries live in memory only; pins are kept in the
+ * `history.pinned` pref (JSON array of keys) so they survive restarts.
+ */
+
+import { debug, error } from "./debug";
+import type { PaperSource } from "./paper-metadata";
+import type { StructuredTranslation } from "./translation-result";
+import { getWordsForItem, type SourcePosition } from "./wordbook";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+const MAX_SESSION_ENTRIES = 200;
+const MAX_PINS = 500;
+
+export interface HistoryEntry {
+  text: string;
+  /** Plain-text translation */
+  translation: string;
+  /** Parsed translation (absent in wordbook entries saved by older versions) */
+  result: StructuredTranslation | null;
+  pageNumber: number | null;
+  position: SourcePosition | null;
+  paper: PaperSource | null;
+  /** ISO timestamp */
+  time: string;
+  /** True for translations made in this session */
+  fromSession: boolean;
+}
+
+type Listener = () => void;
+
+const _session: HistoryEntry[] = [];
+const _listeners = new Set<Listener>();
+let _pins: Set<string> | null = null;
+
+/**
+ * Identifies an entry across the session and the wordbook: one per text per paper.
+ */
+export function getEntryKey(entry: HistoryEntry): string {
+  const paper = entry.paper ? `${entry.paper.libraryID}/${entry.paper.itemKey}` : "";
+  return `${paper}|${entry.text.trim().toLowerCase()}`;
+}
+
+function loadPins(): Set<string> {
+  if (_pins) return _pins;
+  _pins = new Set();
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.history.pinned`, true);
+    const parsed = typeof val === "string" && val ? JSON.parse(val) : [];
+    if (Array.isArray(parsed)) _pins = new Set(parsed.filter((k) => typeof k === "string"));
+  } catch (e) {
+    error("Failed to read pinned translations", e);
+  }
+  return _pins;
+}
+
+export function isPinned(entry: HistoryEntry): boolean {
+  return loadPins().has(getEntryKey(entry));
+}
+
+export function togglePin(entry: HistoryEntry): void {
+  const pins = loadPins();
+  const key = getEntryKey(entry);
+  if (!pins.delete(key)) pins.add(key);
+  // Oldest pins go first once the cap is reached
+  const stored = [...pins].slice(-MAX_PINS);
+  Zotero.Prefs.set(`${PREF_PREFIX}.history.pinned`, JSON.stringify(stored), true);
+  notify();
+}
+
+/**
+ * Called for every finished translation (including cache hits).
+ */
+export function recordTranslation(entry: Omit<HistoryEntry, "time" | "fromSession">): void {
+  const recorded: HistoryEntry = { ...entry, time: new Date().toISOString(), fromSession: true };
+  // A repeated selection moves to the top instead of appearing twice
+  const previous = _session.findIndex((e) => getEntryKey(e) === getEntryKey(recorded));
+  if (previous >= 0) _session.splice(previous, 1);
+  _session.unshift(recorded);
+  if (_session.length > MAX_SESSION_ENTRIES) _session.length = MAX_SESSION_ENTRIES;
+  notify();
+}
+
+/**
+ * Subscribe to history changes. Returns the unsubscribe function.
+ */
+export function onHistoryChange(listener: Listener): () => void {
+  _listeners.add(listener);
+  return () => _listeners.delete(listener);
+}
+
+function notify(): void {
+  for (const listener of _listeners) {
+    try {
+      listener();
+    } catch (e) {
+      error("History listener failed", e);
+    }
+  }
+}
+
+/**
+ * This session's translations, newest first.
+ */
+export function getSessionHistory(): HistoryEntry[] {
+  return [..._session];
+}
+
+/**
+ * Translations of a paper: this session's first, then earlier ones from
+ * the wordbook. Pinned entries come first.
+ */
+export function getPaperHistory(libraryID: number, itemKey: string): HistoryEntry[] {
+  const entries = _session.filter((e) => e.paper?.libraryID === libraryID && e.paper.itemKey === itemKey);
+  const seen = new Set(entries.map(getEntryKey));
+  try {
+    for (const word of getWordsForItem(libraryID, itemKey)) {
+      const entry: HistoryEntry = {
+        text: word.word,
+        translation: word.translation,
+        result: word.result || null,
+        pageNumber: word.pageNumber,
+        position: word.position || null,
+        paper: word.source || null,
+        time: word.updatedAt,
+        fromSession: false,
+      };
+      if (seen.has(getEntryKey(entry))) continue;
+      seen.add(getEntryKey(entry));
+      entries.push(entry);
+    }
+  } catch (e) {
+    debug(`Could not read wordbook history: ${e}`);
+  }
+  const pins = loadPins();
+  return entries.sort((a, b) => Number(pins.has(getEntryKey(b))) - Number(pins.has(getEntryKey(a))));
+}
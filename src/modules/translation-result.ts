@@ -0,0 +1,527 @@
+/**
+ * Translation results - typed structure of a model answer.
+ *
+ * The default prompt templates ask for JSON, which is validated against the
+ * shapes below. Answers in the 【】 marker format (custom templates, or
+ * models that ignore the JSON instruction) go through a fallback parser;
+ * anything else is kept as raw text. Explanation modes and regions have
+ * their own JSON fields, turned into headed sections as described by
+ * MODE_FIELDS.
+ */
+
+import { isExplainMode, type ExplainMode, type TemplateKind } from "./prompt-templates";
+
+export interface WordSense {
+  partOfSpeech: string;
+  meaning: string;
+}
+
+export interface UsageExample {
+  source: string;
+  translation: string;
+}
+
+export interface WordResult {
+  type: "word";
+  word: string;
+  ipaUk: string | null;
+  ipaUs: string | null;
+  senses: WordSense[];
+  examples: UsageExample[];
+  /** Meaning in the context of the current paper */
+  contextualMeaning: string | null;
+}
+
+export interface GrammarPattern {
+  pattern: string;
+  explanation: string;
+}
+
+export interface VocabularyItem {
+  word: string;
+  partOfSpeech: string;
+  meaning: string;
+}
+
+export interface PassageResult {
+  type: "passage";
+  translation: string;
+  /** How a phrase is used (phrase template only) */
+  usage: string | null;
+  grammarPatterns: GrammarPattern[];
+  vocabulary: VocabularyItem[];
+}
+
+export interface RawResult {
+  type: "raw";
+  text: string;
+}
+
+/** Answer of an explanation mode (summary, formula, ...) or about a region */
+export interface ModeResult {
+  type: "mode";
+  mode: ExplainMode | "region";
+  sections: ResultSection[];
+}
+
+export type StructuredTranslation = WordResult | PassageResult | ModeResult | RawResult;
+
+// ============ JSON ============
+
+function str(value: any): string {
+  return typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+}
+
+function optionalStr(value: any): string | null {
+  return str(value) || null;
+}
+
+function list<T>(value: any, map: (item: any) => T | null): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(map).filter((item): item is T => item !== null);
+}
+
+/**
+ * Strip Markdown code fences and any text around the outermost JSON object.
+ */
+function extractJson(raw: string): any | null {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(raw.substring(start, end + 1));
+  } catch (e) {
+    return null;
+  }
+}
+
+function validateWord(obj: any): WordResult | null {
+  const senses = list<WordSense>(obj.senses, (s) => {
+    const meaning = str(s?.meaning);
+    return meaning ? { partOfSpeech: str(s?.partOfSpeech), meaning } : null;
+  });
+  if (!str(obj.word) || senses.length === 0) return null;
+  return {
+    type: "word",
+    word: str(obj.word),
+    ipaUk: optionalStr(obj.ipaUk),
+    ipaUs: optionalStr(obj.ipaUs),
+    senses,
+    examples: list<UsageExample>(obj.examples, (e) => {
+      const source = str(e?.source);
+      return source ? { source, translation: str(e?.translation) } : null;
+    }),
+    contextualMeaning: optionalStr(obj.contextualMeaning),
+  };
+}
+
+function validatePassage(obj: any): PassageResult | null {
+  if (!str(obj.translation)) return null;
+  return {
+    type: "passage",
+    translation: str(obj.translation),
+    usage: optionalStr(obj.usage),
+    grammarPatterns: list<GrammarPattern>(obj.grammarPatterns, (g) => {
+      const pattern = str(g?.pattern);
+      return pattern ? { pattern, explanation: str(g?.explanation) } : null;
+    }),
+    vocabulary: list<VocabularyItem>(obj.vocabulary, (v) => {
+      const word = str(v?.word);
+      return word ? { word, partOfSpeech: str(v?.partOfSpeech), meaning: str(v?.meaning) } : null;
+    }),
+  };
+}
+
+/** How one JSON field of a mode's answer becomes a section */
+interface ModeField {
+  key: string;
+  title: string;
+  ordered?: boolean;
+  /** For lists of objects: the keys of each entry's lead, text and detail */
+  lead?: string;
+  text?: string;
+  detail?: string;
+}
+
+const MODE_FIELDS: Record<ExplainMode | "region", ModeField[]> = {
+  explain: [
+    { key: "explanation", title: "Explanation" },
+    { key: "keyPoints", title: "Key points" },
+  ],
+  summarize: [
+    { key: "summary", title: "Summary" },
+    { key: "points", title: "Main points", ordered: true },
+  ],
+  paraphrase: [
+    { key: "paraphrase", title: "Paraphrase" },
+    { key: "alternatives", title: "Alternatives" },
+    { key: "notes", title: "Notes" },
+  ],
+  formula: [
+    { key: "latex", title: "LaTeX" },
+    { key: "reading", title: "Reads as" },
+    { key: "symbols", title: "Symbols", lead: "symbol", text: "meaning" },
+    { key: "intuition", title: "Intuition" },
+  ],
+  jargon: [
+    { key: "terms", title: "Terms", lead: "term", text: "definition", detail: "example" },
+  ],
+  polish: [
+    { key: "polished", title: "Polished" },
+    { key: "changes", title: "Changes", ordered: true, lead: "original", text: "revised", detail: "reason" },
+  ],
+  region: [
+    { key: "transcription", title: "Transcription" },
+    { key: "translation", title: "Translation" },
+    { key: "explanation", title: "Explanation" },
+    { key: "symbols", title: "Symbols", lead: "symbol", text: "meaning" },
+  ],
+};
+
+function validateMode(obj: any, mode: ExplainMode | "region"): ModeResult | null {
+  const sections: ResultSection[] = MODE_FIELDS[mode].map((field) => {
+    const value = obj[field.key];
+    const entries = Array.isArray(value)
+      ? list(value, (item) => {
+        if (item && typeof item === "object") {
+          const e = entry({
+            lead: field.lead ? str(item[field.lead]) : "",
+            text: field.text ? str(item[field.text]) : "",
+            detail: field.detail ? str(item[field.detail]) : "",
+          });
+          return e.lead || e.text ? e : null;
+        }
+        return str(item) ? entry({ text: str(item) }) : null;
+      })
+      : str(value) ? [entry({ text: str(value) })] : [];
+    return { id: field.key, title: field.title, ordered: !!field.ordered, entries };
+  }).filter((s) => s.entries.length > 0);
+  return sections.length > 0 ? { type: "mode", mode, sections } : null;
+}
+
+// ============ 【】 markers ============
+
+const WORD_SECTIONS = ["word", "phonetics", "senses", "examples", "context"] as const;
+const PASSAGE_SECTIONS = ["translation", "grammar", "vocabulary"] as const;
+const PHRASE_SECTIONS = ["translation", "usage", "vocabulary"] as const;
+
+/** Known headings, in Chinese (original prompt) and English (default template) */
+const HEADING_ALIASES: Record<string, string> = {
+  "单词": "word", "word": "word",
+  "音标": "phonetics", "phonetics": "phonetics",
+  "释义": "senses", "definitions": "senses",
+  "例句": "examples", "examples": "examples",
+  "语境": "context", "in context": "context",
+  "精准翻译": "translation", "翻译": "translation", "translation": "translation",
+  "用法": "usage", "usage": "usage",
+  "核心句式": "grammar", "key structures": "grammar",
+  "重点词汇": "vocabulary", "key vocabulary": "vocabulary",
+};
+
+/**
+ * Split text into [heading, body] pairs at 【heading】 markers.
+ */
+function splitSections(raw: string): Array<{ heading: string; body: string }> {
+  const sections: Array<{ heading: string; body: string }> = [];
+  const regex = /【([^】]*)】/g;
+  const matches = [...raw.matchAll(regex)];
+  matches.forEach((match, i) => {
+    const bodyStart = match.index! + match[0].length;
+    const bodyEnd = i + 1 < matches.length ? matches[i + 1].index! : raw.length;
+    sections.push({ heading: match[1].trim(), body: raw.substring(bodyStart, bodyEnd).trim() });
+  });
+  return sections;
+}
+
+/**
+ * Map sections to keys by known heading, falling back to position for
+ * headings translated into other languages.
+ */
+function keySections(raw: string, order: readonly string[]): Record<string, string> {
+  const keyed: Record<string, string> = {};
+  splitSections(raw).forEach(({ heading, body }, i) => {
+    const key = HEADING_ALIASES[heading.toLowerCase()] || order[i];
+    if (key && !(key in keyed)) keyed[key] = body;
+  });
+  return keyed;
+}
+
+function lines(body: string | undefined): string[] {
+  return (body || "").split("\n").map((l) => l.trim()).filter((l) => l.length > 0);
+}
+
+function stripListMarker(line: string): string {
+  return line.replace(/^(?:\d+[.)、]|[•\-*])\s*/, "");
+}
+
+function parseWordMarkers(raw: string): WordResult | null {
+  const sections = keySections(raw, WORD_SECTIONS);
+  const senses = lines(sections.senses).map((line) => {
+    const match = stripListMarker(line).match(/^([a-z]+\.(?:\s*\/\s*[a-z]+\.)*|[a-z]+\.)\s*(.+)$/i);
+    return match
+      ? { partOfSpeech: match[1], meaning: match[2].trim() }
+      : { partOfSpeech: "", meaning: stripListMarker(line) };
+  });
+  if (!sections.word || senses.length === 0) return null;
+
+  const ipa = [...(sections.phonetics || "").matchAll(/[[/]([^\]/]+)[\]/]/g)].map((m) => m[1].trim());
+
+  // Example lines come in pairs: source sentence, then its translation
+  const exampleLines = lines(sections.examples)
+    .filter((line) => !line.startsWith("📌"))
+    .map((line) => stripListMarker(line).replace(/^[^:：]{1,20}[:：]\s*/, ""));
+  const examples: UsageExample[] = [];
+  for (let i = 0; i < exampleLines.length; i += 2) {
+    examples.push({ source: exampleLines[i], translation: exampleLines[i + 1] || "" });
+  }
+
+  // The original prompt put the contextual meaning on a trailing 📌 line
+  let contextualMeaning = sections.context || null;
+  const pinned = raw.match(/📌\s*(.+)/);
+  if (!contextualMeaning && pinned) contextualMeaning = pinned[1].trim();
+
+  return {
+    type: "word",
+    word: lines(sections.word)[0],
+    ipaUk: ipa[0] || null,
+    ipaUs: ipa[1] || null,
+    senses,
+    examples,
+    contextualMeaning,
+  };
+}
+
+function parsePassageMarkers(raw: string, order: readonly string[]): PassageResult | null {
+  const sections = keySections(raw, order);
+  if (!sections.translation) return null;
+  return {
+    type: "passage",
+    translation: sections.translation,
+    usage: sections.usage || null,
+    grammarPatterns: lines(sections.grammar).map((line) => {
+      const [pattern, ...rest] = stripListMarker(line).split(/[:：]/);
+      return { pattern: pattern.trim(), explanation: rest.join(":").trim() };
+    }),
+    vocabulary: lines(sections.vocabulary).map((line) => {
+      const match = stripListMarker(line).match(/^(.+?)\s*[(（]([^)）]*)[)）]\s*[:：]\s*(.*)$/);
+      return match
+        ? { word: match[1].trim(), partOfSpeech: match[2].trim(), meaning: match[3].trim() }
+        : { word: stripListMarker(line), partOfSpeech: "", meaning: "" };
+    }),
+  };
+}
+
+// ============ Public API ============
+
+/**
+ * Parse a model answer: JSON first, then 【】 markers, else raw text.
+ * Document chunks and follow-up answers are always plain text; mode and
+ * region answers are JSON or raw text.
+ */
+export function parseTranslation(raw: string, kind: TemplateKind): StructuredTranslation {
+  const text = raw.trim();
+  if (kind === "document" || kind === "followup") return { type: "raw", text };
+  const json = extractJson(text);
+  if (isExplainMode(kind) || kind === "region") {
+    return (json && typeof json === "object" && validateMode(json, kind)) || { type: "raw", text };
+  }
+  if (json && typeof json === "object") {
+    const result = Array.isArray(json.senses) ? validateWord(json) : validatePassage(json);
+    if (result) return result;
+  }
+
+  if (text.includes("【")) {
+    const result = kind === "word"
+      ? parseWordMarkers(text)
+      : parsePassageMarkers(text, kind === "phrase" ? PHRASE_SECTIONS : PASSAGE_SECTIONS);
+    if (result) return result;
+  }
+
+  return { type: "raw", text };
+}
+
+/**
+ * Plain-text rendering, used in the popup and as the wordbook's translation text.
+ */
+export function formatTranslation(result: StructuredTranslation): string {
+  if (result.type === "raw") return result.text;
+  if (result.type === "mode") {
+    return result.sections.map((s) => `${s.title}\n${formatSection(s)}`).join("\n\n");
+  }
+
+  const out: string[] = [];
+  if (result.type === "word") {
+    const ipa = [
+      result.ipaUk ? `UK [${result.ipaUk}]` : "",
+      result.ipaUs ? `US [${result.ipaUs}]` : "",
+    ].filter(Boolean).join(" | ");
+    out.push(ipa ? `${result.word}  ${ipa}` : result.word);
+    result.senses.forEach((s, i) => out.push(`${i + 1}. ${s.partOfSpeech ? s.partOfSpeech + " " : ""}${s.meaning}`));
+    for (const e of result.examples) {
+      out.push(`• ${e.source}`);
+      if (e.translation) out.push(`  ${e.translation}`);
+    }
+    if (result.contextualMeaning) out.push(`📌 ${result.contextualMeaning}`);
+    return out.join("\n");
+  }
+
+  out.push(result.translation);
+  if (result.usage) out.push("", result.usage);
+  if (result.grammarPatterns.length > 0) {
+    out.push("");
+    result.grammarPatterns.forEach((g, i) => out.push(`${i + 1}. ${g.pattern}${g.explanation ? ": " + g.explanation : ""}`));
+  }
+  if (result.vocabulary.length > 0) {
+    out.push("");
+    result.vocabulary.forEach((v, i) => out.push(`${i + 1}. ${v.word}${v.partOfSpeech ? ` (${v.partOfSpeech})` : ""}${v.meaning ? ": " + v.meaning : ""}`));
+  }
+  return out.join("\n");
+}
+
+// ============ Sections ============
+
+export interface SectionEntry {
+  /** Emphasized head: a word or grammar pattern */
+  lead: string;
+  /** Part of speech */
+  tag: string;
+  text: string;
+  /** Secondary line, e.g. an example's translation */
+  detail: string;
+}
+
+export interface ResultSection {
+  /** Passage and word sections have fixed ids; mode sections use their JSON key */
+  id: string;
+  title: string;
+  ordered: boolean;
+  entries: SectionEntry[];
+}
+
+function entry(fields: Partial<SectionEntry>): SectionEntry {
+  return { lead: "", tag: "", text: "", detail: "", ...fields };
+}
+
+/**
+ * Headed sections of a result, in display order. Empty sections are
+ * omitted; raw results have none.
+ */
+export function getSections(result: StructuredTranslation): ResultSection[] {
+  if (result.type === "mode") return result.sections;
+  const sections: ResultSection[] = [];
+  if (result.type === "word") {
+    sections.push({
+      id: "senses", title: "Definitions", ordered: true,
+      entries: result.senses.map((s) => entry({ tag: s.partOfSpeech, text: s.meaning })),
+    });
+    sections.push({
+      id: "examples", title: "Examples", ordered: false,
+      entries: result.examples.map((e) => entry({ text: e.source, detail: e.translation })),
+    });
+    if (result.contextualMeaning) {
+      sections.push({
+        id: "context", title: "In context", ordered: false,
+        entries: [entry({ text: result.contextualMeaning })],
+      });
+    }
+  } else if (result.type === "passage") {
+    sections.push({
+      id: "translation", title: "Translation", ordered: false,
+      entries: [entry({ text: result.translation })],
+    });
+    if (result.usage) {
+      sections.push({ id: "usage", title: "Usage", ordered: false, entries: [entry({ text: result.usage })] });
+    }
+    sections.push({
+      id: "grammar", title: "Grammar", ordered: true,
+      entries: result.grammarPatterns.map((g) => entry({ lead: g.pattern, text: g.explanation })),
+    });
+    sections.push({
+      id: "vocabulary", title: "Key terms", ordered: false,
+      entries: result.vocabulary.map((v) => entry({ lead: v.word, tag: v.partOfSpeech, text: v.meaning })),
+    });
+  }
+  return sections.filter((s) => s.entries.length > 0);
+}
+
+function entryLine(e: SectionEntry): string {
+  const head = [e.lead, e.tag && (e.lead ? `(${e.tag})` : e.tag)].filter(Boolean).join(" ");
+  if (!head) return e.text;
+  return e.text ? `${head}${e.lead ? ": " : " "}${e.text}` : head;
+}
+
+/**
+ * Plain-text rendering of one section, for its copy button.
+ */
+export function formatSection(section: ResultSection): string {
+  return section.entries.map((e, i) => {
+    const marker = section.entries.length === 1 ? "" : section.ordered ? `${i + 1}. ` : "• ";
+    const line = marker + entryLine(e);
+    return e.detail ? `${line}\n${" ".repeat(marker.length)}${e.detail}` : line;
+  }).join("\n");
+}
+
+/**
+ * Pronunciation line of a word result, e.g. "UK /ˈwɜːd/ · US /wɝd/".
+ */
+export function formatPhonetics(result: WordResult): string {
+  return [
+    result.ipaUk ? `UK /${result.ipaUk}/` : "",
+    result.ipaUs ? `US /${result.ipaUs}/` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+/**
+ * Markdown rendering of a result, with the selected text as the heading
+ * (words) or a quote (passages; none for regions, which have no text).
+ */
+export function formatMarkdown(result: StructuredTranslation, sourceText: string): string {
+  if (result.type === "raw") return result.text;
+
+  const out: string[] = [];
+  if (result.type === "word") {
+    out.push(`## ${result.word}`);
+    const phonetics = formatPhonetics(result);
+    if (phonetics) out.push("", phonetics);
+  } else if (sourceText.trim()) {
+    out.push(sourceText.trim().split("\n").map((l) => `> ${l}`).join("\n"));
+  }
+
+  for (const section of getSections(result)) {
+    if (out.length > 0) out.push("");
+    out.push(`### ${section.title}`, "");
+    section.entries.forEach((e, i) => {
+      const head = [e.lead && `**${e.lead}**`, e.tag && (e.lead ? `*(${e.tag})*` : `*${e.tag}*`)].filter(Boolean).join(" ");
+      const body = head ? (e.text ? `${head}${e.lead ? ": " : " "}${e.text}` : head) : e.text;
+      if (section.entries.length === 1 && !e.detail) {
+        out.push(body);
+        return;
+      }
+      const marker = section.ordered ? `${i + 1}.` : "-";
+      out.push(`${marker} ${body}`);
+      if (e.detail) out.push(`${" ".repeat(marker.length + 1)}*${e.detail}*`);
+    });
+  }
+  return out.join("\n");
+}
+
+/**
+ * Readable view of a partially streamed answer. JSON is shown as its string
+ * values (including the one still being written); other text as-is.
+ */
+export function formatPartialTranslation(partial: string): string {
+  const start = partial.indexOf("{");
+  if (start < 0 || partial.substring(0, start).replace(/```(json)?/g, "").trim()) return partial;
+
+  const values: string[] = [];
+  const regex = /"(\w+)"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(partial)) !== null) {
+    try {
+      values.push(JSON.parse(`"${match[2].replace(/\\$/, "")}"`));
+    } catch (e) {
+      values.push(match[2]);
+    }
+  }
+  return values.join("\n");
+}
@@ -0,0 +1,302 @@
+/**
+ * Translation view - renders a structured result into the popup.
+ *
+ * Each section (definitions, examples, grammar, key terms, ...) gets a
+ * heading with its own copy button; long sections start collapsed. A footer
+ * action copies the whole result as Markdown; callers can add their own
+ * footer actions (e.g. saving to Zotero). Words get speaker buttons next to
+ * their phonetics.
+ */
+
+import { debug, error } from "./debug";
+import { speakWord, type Accent } from "./tts";
+import {
+  formatMarkdown,
+  formatSection,
+  getSections,
+  type ResultSection,
+  type StructuredTranslation,
+  type WordResult,
+} from "./translation-result";
+
+/** Sections longer than this (in characters or entries) start collapsed */
+const COLLAPSE_CHARS = 280;
+const COLLAPSE_ENTRIES = 4;
+const COLLAPSED_HEIGHT = "6.4em";
+
+/** Extra footer button; a rejected `run` shows ✗ with the reason as tooltip */
+export interface ResultAction {
+  label: string;
+  title: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Create an HTML element, even in XUL documents.
+ */
+export function createHtmlElement<K extends keyof HTMLElementTagNameMap>(doc: Document, tag: K): HTMLElementTagNameMap[K] {
+  if (doc.createElementNS) {
+    return doc.createElementNS("http://www.w3.org/1999/xhtml", tag) as HTMLElementTagNameMap[K];
+  }
+  return doc.createElement(tag);
+}
+
+export function copyToClipboard(text: string): boolean {
+  try {
+    Zotero.Utilities.Internal.copyTextToClipboard(text);
+    return true;
+  } catch (e) {
+    try {
+      Cc["@mozilla.org/widget/clipboardhelper;1"].getService(Ci.nsIClipboardHelper).copyString(text);
+      return true;
+    } catch (e2) {
+      error("Failed to copy to clipboard", e2);
+      return false;
+    }
+  }
+}
+
+/**
+ * Small text button; clicks never reach the reader or the popup's
+ * outside-click handler.
+ */
+export function createActionButton(doc: Document, label: string, title: string, onClick: (button: HTMLElement) => void): HTMLElement {
+  const button = createHtmlElement(doc, "button");
+  button.textContent = label;
+  button.title = title;
+  button.style.cssText = `
+    font-size: 11px;
+    line-height: 1.2;
+    padding: 1px 6px;
+    border: 1px solid #d0d0d0;
+    border-radius: 4px;
+    background: #fff;
+    color: #555;
+    cursor: pointer;
+  `;
+  button.addEventListener("click", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onClick(button);
+  });
+  return button;
+}
+
+/**
+ * Button that copies text and briefly confirms it in its label.
+ */
+function createCopyButton(doc: Document, label: string, title: string, getText: () => string): HTMLElement {
+  return createActionButton(doc, label, title, (button) => {
+    const copied = copyToClipboard(getText());
+    button.textContent = copied ? "✓" : "✗";
+    setTimeout(() => { button.textContent = label; }, 1200);
+    debug(`Copied ${title.toLowerCase()}: ${copied}`);
+  });
+}
+
+/**
+ * Speaker button; failures (no voice, no endpoint) show ✗ with the reason
+ * as tooltip.
+ */
+function createSpeakButton(doc: Document, word: string, accent: Accent | undefined, title: string): HTMLElement {
+  return createActionButton(doc, "🔊", title, (button) => {
+    speakWord(word, accent).catch((e: any) => {
+      button.textContent = "✗";
+      button.title = e?.message || String(e);
+      setTimeout(() => {
+        button.textContent = "🔊";
+        button.title = title;
+      }, 3000);
+    });
+  });
+}
+
+/**
+ * Footer button for a ResultAction: shows … while running, then ✓ (and
+ * stays disabled, so the same result is not saved twice) or ✗.
+ */
+function createResultActionButton(doc: Document, action: ResultAction): HTMLElement {
+  return createActionButton(doc, action.label, action.title, (button) => {
+    if (button.hasAttribute("disabled")) return;
+    button.setAttribute("disabled", "true");
+    button.textContent = "…";
+    action.run().then(() => {
+      button.textContent = `✓ ${action.label}`;
+    }).catch((e: any) => {
+      error(`${action.title} failed`, e);
+      button.textContent = "✗";
+      button.title = e?.message || String(e);
+      setTimeout(() => {
+        button.textContent = action.label;
+        button.title = action.title;
+        button.removeAttribute("disabled");
+      }, 3000);
+    });
+  });
+}
+
+/**
+ * Word heading with UK/US phonetics, each with its own speaker button.
+ */
+function renderWordHeader(doc: Document, result: WordResult): HTMLElement {
+  const header = createHtmlElement(doc, "div");
+  header.style.cssText = "display: flex; align-items: center; flex-wrap: wrap; gap: 6px;";
+  const word = createHtmlElement(doc, "strong");
+  word.textContent = result.word;
+  word.style.cssText = "font-size: 14px;";
+  header.appendChild(word);
+
+  const accents: Array<[Accent, string, string | null]> = [
+    ["en-GB", "UK", result.ipaUk],
+    ["en-US", "US", result.ipaUs],
+  ];
+  const withIpa = accents.filter(([, , ipa]) => ipa);
+  if (withIpa.length === 0) {
+    header.appendChild(createSpeakButton(doc, result.word, undefined, "Pronounce"));
+  }
+  for (const [accent, label, ipa] of withIpa) {
+    const ipaEl = createHtmlElement(doc, "span");
+    ipaEl.setAttribute("data-role", "phonetics");
+    ipaEl.textContent = `${label} /${ipa}/`;
+    ipaEl.style.cssText = "color: #666; font-family: \"Lucida Sans Unicode\", \"Arial Unicode MS\", sans-serif;";
+    header.appendChild(ipaEl);
+    header.appendChild(createSpeakButton(doc, result.word, accent, `Pronounce (${label})`));
+  }
+  return header;
+}
+
+function renderEntry(doc: Document, section: ResultSection, index: number): HTMLElement {
+  const entry = section.entries[index];
+  const row = createHtmlElement(doc, "div");
+  row.style.cssText = "margin: 2px 0;";
+
+  if (section.entries.length > 1) {
+    const marker = createHtmlElement(doc, "span");
+    marker.textContent = section.ordered ? `${index + 1}. ` : "• ";
+    marker.style.cssText = "color: #999;";
+    row.appendChild(marker);
+  }
+  if (entry.lead) {
+    const lead = createHtmlElement(doc, "strong");
+    lead.textContent = entry.lead;
+    row.appendChild(lead);
+  }
+  if (entry.tag) {
+    const tag = createHtmlElement(doc, "em");
+    tag.textContent = entry.lead ? ` (${entry.tag})` : entry.tag;
+    tag.style.cssText = "color: #7a5ea8;";
+    row.appendChild(tag);
+  }
+  if (entry.text) {
+    const separator = entry.lead ? ": " : entry.tag ? " " : "";
+    row.appendChild(doc.createTextNode(separator + entry.text));
+  }
+  if (entry.detail) {
+    const detail = createHtmlElement(doc, "div");
+    detail.textContent = entry.detail;
+    detail.style.cssText = "color: #777; padding-left: 1em;";
+    row.appendChild(detail);
+  }
+  return row;
+}
+
+function renderSection(doc: Document, section: ResultSection): HTMLElement {
+  const wrapper = createHtmlElement(doc, "div");
+  wrapper.setAttribute("data-section", section.id);
+  wrapper.style.cssText = "margin-top: 6px;";
+
+  const heading = createHtmlElement(doc, "div");
+  heading.style.cssText = `
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    font-size: 11px;
+    font-weight: 600;
+    color: #888;
+    text-transform: uppercase;
+    letter-spacing: 0.03em;
+  `;
+  const title = createHtmlElement(doc, "span");
+  title.textContent = section.title;
+  heading.appendChild(title);
+  heading.appendChild(createCopyButton(doc, "Copy", `Copy ${section.title}`, () => formatSection(section)));
+  wrapper.appendChild(heading);
+
+  const body = createHtmlElement(doc, "div");
+  body.style.cssText = "white-space: pre-wrap; word-break: break-word; overflow: hidden;";
+  section.entries.forEach((_entry, i) => body.appendChild(renderEntry(doc, section, i)));
+  wrapper.appendChild(body);
+
+  const plainText = formatSection(section);
+  if (plainText.length > COLLAPSE_CHARS || section.entries.length > COLLAPSE_ENTRIES) {
+    let collapsed = true;
+    body.style.maxHeight = COLLAPSED_HEIGHT;
+    const toggle = createHtmlElement(doc, "a");
+    toggle.textContent = "Show more ▾";
+    toggle.style.cssText = "font-size: 11px; color: #667eea; cursor: pointer;";
+    toggle.addEventListener("click", (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      collapsed = !collapsed;
+      body.style.maxHeight = collapsed ? COLLAPSED_HEIGHT : "none";
+      toggle.textContent = collapsed ? "Show more ▾" : "Show less ▴";
+    });
+    wrapper.appendChild(toggle);
+  }
+  return wrapper;
+}
+
+/**
+ * Fill `target` with the rendered result of translating `sourceText`.
+ */
+export function renderTranslation(
+  doc: Document,
+  target: HTMLElement,
+  result: StructuredTranslation,
+  sourceText: string,
+  actions: ResultAction[] = [],
+): void {
+  while (target.firstChild) {
+    target.removeChild(target.firstChild);
+  }
+  target.style.cssText = `
+    color: #333;
+    font-style: normal;
+    white-space: normal;
+    word-break: break-word;
+    line-height: 1.6;
+    font-size: 12px;
+  `;
+
+  if (result.type === "word") {
+    target.appendChild(renderWordHeader(doc, result));
+  }
+
+  const sections = getSections(result);
+  if (sections.length === 0) {
+    // Raw answer: keep the model's own layout
+    const raw = createHtmlElement(doc, "div");
+    raw.textContent = result.type === "raw" ? result.text : "";
+    raw.style.cssText = "white-space: pre-wrap; font-family: \"SF Mono\", \"Monaco\", \"Menlo\", \"Consolas\", monospace;";
+    target.appendChild(raw);
+  }
+  for (const section of sections) {
+    target.appendChild(renderSection(doc, section));
+  }
+
+  const footer = createHtmlElement(doc, "div");
+  footer.style.cssText = `
+    display: flex;
+    justify-content: flex-end;
+    flex-wrap: wrap;
+    gap: 4px;
+    margin-top: 8px;
+    padding-top: 4px;
+    border-top: 1px solid #eee;
+  `;
+  for (const action of actions) {
+    footer.appendChild(createResultActionButton(doc, action));
+  }
+  footer.appendChild(createCopyButton(doc, "Copy as Markdown", "Copy all as Markdown", () => formatMarkdown(result, sourceText)));
+  target.appendChild(footer);
+}
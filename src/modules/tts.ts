@@ -0,0 +1,161 @@
+/**
+ * Pronunciation - reads looked-up words aloud.
+ *
+ * Uses the Web Speech API of Zotero's main window. When no English voice is
+ * installed, or speaking fails, the audio is fetched from the `tts.endpoint`
+ * URL template instead (if configured).
+ */
+
+import { debug, error } from "./debug";
+
+const PREF_PREFIX = "extensions.vibe-zotero-translate";
+/** How long speech may take to start before the endpoint is used instead */
+const SPEECH_START_TIMEOUT_MS = 2000;
+
+export type Accent = "en-GB" | "en-US";
+
+export interface TTSSettings {
+  accent: Accent;
+  /** Voice name; empty picks the first voice matching the accent */
+  voice: string;
+  /** URL template with {text}, {lang} (en-GB/en-US) and {accent} (uk/us) */
+  endpoint: string;
+}
+
+export interface VoiceInfo {
+  name: string;
+  lang: string;
+}
+
+function getPref(key: string): string {
+  try {
+    const val = Zotero.Prefs.get(`${PREF_PREFIX}.${key}`, true);
+    if (typeof val === "string") return val.trim();
+  } catch (e) {
+    // preference not set
+  }
+  return "";
+}
+
+export function getTTSSettings(): TTSSettings {
+  return {
+    accent: getPref("tts.accent") === "en-GB" ? "en-GB" : "en-US",
+    voice: getPref("tts.voice"),
+    endpoint: getPref("tts.endpoint"),
+  };
+}
+
+function getSpeechSynthesis(): any | null {
+  try {
+    return Zotero.getMainWindow()?.speechSynthesis || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function normalizeLang(lang: string): string {
+  return (lang || "").replace("_", "-").toLowerCase();
+}
+
+/**
+ * English voices available to the Web Speech API, for the preferences pane.
+ */
+export function listVoices(): VoiceInfo[] {
+  const synth = getSpeechSynthesis();
+  if (!synth) return [];
+  return synth.getVoices()
+    .filter((v: any) => normalizeLang(v.lang).startsWith("en"))
+    .map((v: any) => ({ name: v.name, lang: v.lang }));
+}
+
+function pickVoice(voices: any[], accent: Accent, voiceName: string): any | null {
+  if (voiceName) {
+    const named = voices.find((v) => v.name === voiceName);
+    if (named) return named;
+    debug(`TTS voice "${voiceName}" not found, picking by accent`);
+  }
+  const lang = accent.toLowerCase();
+  return voices.find((v) => normalizeLang(v.lang) === lang)
+    || voices.find((v) => normalizeLang(v.lang).startsWith("en"))
+    || null;
+}
+
+/**
+ * Speak with the Web Speech API. Resolves false when no English voice is
+ * available, the engine reports an error or speech does not start in time
+ * (some engines fire no event at all for a voice they cannot use).
+ */
+function speakWithWebSpeech(text: string, accent: Accent, voiceName: string): Promise<boolean> {
+  const win = Zotero.getMainWindow();
+  const synth = getSpeechSynthesis();
+  if (!win || !synth || typeof win.SpeechSynthesisUtterance !== "function") {
+    return Promise.resolve(false);
+  }
+  const voice = pickVoice(synth.getVoices(), accent, voiceName);
+  if (!voice) {
+    debug("No English speech voice installed");
+    return Promise.resolve(false);
+  }
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const settle = (spoken: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(spoken);
+    };
+    const timer = setTimeout(() => {
+      if (settled) return;
+      debug(`Speech did not start within ${SPEECH_START_TIMEOUT_MS}ms`);
+      synth.cancel();
+      settle(false);
+    }, SPEECH_START_TIMEOUT_MS);
+    const utterance = new win.SpeechSynthesisUtterance(text);
+    utterance.voice = voice;
+    utterance.lang = voice.lang || accent;
+    utterance.onstart = () => settle(true);
+    utterance.onend = () => settle(true);
+    utterance.onerror = (e: any) => {
+      debug(`Speech synthesis error: ${e?.error || e}`);
+      settle(false);
+    };
+    synth.cancel();
+    synth.speak(utterance);
+    debug(`Speaking "${text}" with ${voice.name} (${voice.lang})`);
+  });
+}
+
+export function fillEndpoint(template: string, text: string, accent: Accent): string {
+  return template
+    .replace(/\{text\}/g, encodeURIComponent(text))
+    .replace(/\{lang\}/g, accent)
+    .replace(/\{accent\}/g, accent === "en-GB" ? "uk" : "us");
+}
+
+async function playFromEndpoint(text: string, accent: Accent, endpoint: string): Promise<void> {
+  const win = Zotero.getMainWindow();
+  if (!win) throw new Error("No Zotero window to play audio in");
+  const url = fillEndpoint(endpoint, text, accent);
+  debug(`Playing pronunciation from ${url}`);
+  await new win.Audio(url).play();
+}
+
+/**
+ * Pronounce a word in the given accent (default: the `tts.accent` pref).
+ */
+export async function speakWord(text: string, accent?: Accent): Promise<void> {
+  const settings = getTTSSettings();
+  const lang = accent || settings.accent;
+  if (await speakWithWebSpeech(text, lang, settings.voice)) return;
+
+  if (!settings.endpoint) {
+    throw new Error("No English speech voice is installed. Set a TTS endpoint in Vibe Translate settings.");
+  }
+  try {
+    await playFromEndpoint(text, lang, settings.endpoint);
+  } catch (e: any) {
+    error("TTS endpoint playback failed", e);
+    throw new Error(`TTS endpoint playback failed: ${e?.message || e}`);
+  }
+}
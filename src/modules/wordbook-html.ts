@@ -48,6 +48,18 @@ export function getWordbookCSS(): string {
     ".copy-btn{position:absolute;top:0;right:0;background:#f0f0f0;border:none;border-radius:4px;padding:2px 6px;font-size:11px;cursor:pointer;opacity:0;transition:opacity .2s;color:#666}",
     "td:hover .copy-btn{opacity:1}",
     ".copy-btn:hover{background:#667eea;color:#fff}",
+    ".ipa{font-size:12px;color:#888;margin-top:2px}",
+    ".spk-btn{background:none;border:none;cursor:pointer;font-size:13px;padding:0 2px;vertical-align:middle;transition:transform .15s}",
+    ".spk-btn:hover{transform:scale(1.2)}",
+    ".src{font-size:11px;margin-top:3px;max-width:260px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap}",
+    ".src a{color:#667eea;text-decoration:none}",
+    ".src a:hover{text-decoration:underline}",
+    ".open-link{color:#667eea;text-decoration:none;white-space:nowrap}",
+    ".open-link:hover{text-decoration:underline}",
+    '.thread{margin-top:8px;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;font-size:12px}',
+    ".thread summary{cursor:pointer;color:#667eea;font-weight:600}",
+    ".thread .q{margin-top:6px;font-weight:600;color:#1a1a2e}",
+    ".thread .a{color:#555}",
     ".del-btn{padding:4px 10px;border:1px solid #ff6b6b;border-radius:6px;background:#fff;color:#ff6b6b;cursor:pointer;font-size:13px;transition:all .2s}",
     ".del-btn:hover{background:#ff6b6b;color:#fff}",
     ".empty{text-align:center;padding:80px 20px;color:#999}",
@@ -68,7 +80,7 @@ export function getWordbookJS(): string {
     "",
     "function getFiltered(){",
     "  var w=allWords.slice();",
-    '  if(sq){var s=sq.toLowerCase();w=w.filter(function(x){return x.word.toLowerCase().indexOf(s)>=0||x.translation.toLowerCase().indexOf(s)>=0})}',
+    '  if(sq){var s=sq.toLowerCase();w=w.filter(function(x){return x.word.toLowerCase().indexOf(s)>=0||x.translation.toLowerCase().indexOf(s)>=0||(x.sourceTitle||"").toLowerCase().indexOf(s)>=0})}',
     "  if(starOnly)w=w.filter(function(x){return x.starred});",
     '  if(curSort==="alpha")w.sort(function(a,b){return a.word.localeCompare(b.word)});',
     '  else if(curSort==="count")w.sort(function(a,b){return b.queryCount-a.queryCount});',
@@ -102,10 +114,10 @@ export function getWordbookJS(): string {
     "    var x=w[i];var sid=x.id;",
     "    h+='<tr>';",
     '    h+=\'<td><button class="star-btn" data-id="\'+sid+\'" onclick="toggleStar(this.dataset.id)">\'+(x.starred?"\\u2B50":"\\u2606")+\'</button></td>\';',
-    '    h+=\'<td class="word-col"><strong>\'+esc(x.word)+\'</strong><span class="badge \'+(x.isSingleWord?"badge-w":"badge-p")+\'">\'+( x.isSingleWord?"Word":"Phrase")+\'</span></td>\';',
-    '    h+=\'<td class="tcell" style="position:relative">\'+esc(x.translation)+\'<button class="copy-btn" onclick="copyText(this)" data-text="\'+esc(x.translation).replace(/"/g,\'&quot;\')+\'">Copy</button></td>\';',
+    '    h+=\'<td class="word-col"><strong>\'+esc(x.word)+\'</strong><span class="badge \'+(x.isSingleWord?"badge-w":"badge-p")+\'">\'+( x.isSingleWord?"Word":"Phrase")+\'</span>\'+(x.isSingleWord?speakHTML(x):"")+srcHTML(x)+\'</td>\';',
+    '    h+=\'<td class="tcell" style="position:relative">\'+esc(x.translation)+threadsHTML(x)+\'<button class="copy-btn" onclick="copyText(this)" data-text="\'+esc(x.translation).replace(/"/g,\'&quot;\')+\'">Copy</button></td>\';',
     '    h+=\'<td style="text-align:center"><span class="badge badge-c">\'+x.queryCount+\'x</span></td>\';',
-    '    h+=\'<td style="text-align:center">\'+(x.pageNumber?"P"+x.pageNumber:"-")+\'</td>\';',
+    '    h+=\'<td style="text-align:center">\'+pageHTML(x)+\'</td>\';',
     '    h+=\'<td style="color:#999;font-size:12px">\'+fd(x.updatedAt)+\'</td>\';',
     '    h+=\'<td><button class="del-btn" data-id="\'+sid+\'" data-word="\'+esc(x.word).replace(/"/g,\'&quot;\')+\'" onclick="del(this.dataset.id,this.dataset.word)">\\uD83D\\uDDD1\\uFE0F</button></td>\';',
     "    h+='</tr>';",
@@ -115,6 +127,63 @@ export function getWordbookJS(): string {
     "  updateStats();",
     "}",
     "",
+    "function speakHTML(x){",
+    '  var r=x.result,w=esc(x.word).replace(/"/g,"&quot;"),h="";',
+    '  var btn=function(lang,label){return \'<button class="spk-btn" title="Pronounce\'+(label?" ("+label+")":"")+\'" data-word="\'+w+\'" data-lang="\'+lang+\'" onclick="speak(this.dataset.word,this.dataset.lang)">\\u{1F50A}</button>\'};',
+    '  if(r&&r.type==="word"&&(r.ipaUk||r.ipaUs)){',
+    '    if(r.ipaUk)h+="UK /"+esc(r.ipaUk)+"/ "+btn("en-GB","UK");',
+    '    if(r.ipaUs)h+=" US /"+esc(r.ipaUs)+"/ "+btn("en-US","US");',
+    '  }else h+=btn("","");',
+    '  return \'<div class="ipa">\'+h+\'</div>\';',
+    "}",
+    "",
+    "function pageHTML(x){",
+    '  var label=x.pageNumber?"P"+x.pageNumber:"";',
+    '  if(!x.openURL)return label||"-";',
+    '  return \'<a class="open-link" href="\'+x.openURL+\'" title="Open in Zotero at this page">\'+(label||"Open")+\' \\u2197</a>\';',
+    "}",
+    "",
+    "function threadsHTML(x){",
+    '  if(!x.threads||!x.threads.length)return "";',
+    '  var h="",n=0;',
+    "  for(var i=0;i<x.threads.length;i++){var t=x.threads[i].turns;for(var j=0;j<t.length;j++){n++;h+='<div class=\"q\">'+esc(t[j].question)+'</div><div class=\"a\">'+esc(t[j].answer)+'</div>'}}",
+    '  return \'<details class="thread"><summary>\\u{1F4AC} \'+n+" follow-up"+(n>1?"s":"")+\'</summary>\'+h+\'</details>\';',
+    "}",
+    "",
+    "function srcHTML(x){",
+    "  var s=x.source;",
+    '  if(!s&&!x.sourceTitle)return "";',
+    '  var label=esc((s&&s.title)||x.sourceTitle)+(s&&s.year?" ("+s.year+")":"");',
+    '  if(!s||!s.itemKey)return \'<div class="src">\\u{1F4C4} \'+label+\'</div>\';',
+    '  var uri="zotero://select/"+(s.groupID?"groups/"+s.groupID:"library")+"/items/"+s.itemKey;',
+    '  var tip=esc([s.authors.join(", "),s.publication,s.doi&&"DOI: "+s.doi].filter(Boolean).join(" \\u00B7 ")).replace(/"/g,"&quot;");',
+    '  return \'<div class="src"><a href="\'+uri+\'" title="\'+tip+\'">\\u{1F4C4} \'+label+\'</a></div>\';',
+    "}",
+    "",
+    "function pickVoice(lang){",
+    "  if(!window.speechSynthesis)return null;",
+    "  var vs=speechSynthesis.getVoices(),l=lang.toLowerCase(),i;",
+    "  if(ttsConfig.voice){for(i=0;i<vs.length;i++){if(vs[i].name===ttsConfig.voice)return vs[i]}}",
+    '  for(i=0;i<vs.length;i++){if(vs[i].lang.replace("_","-").toLowerCase()===l)return vs[i]}',
+    '  for(i=0;i<vs.length;i++){if(vs[i].lang.toLowerCase().indexOf("en")===0)return vs[i]}',
+    "  return null;",
+    "}",
+    "",
+    "function speak(word,lang){",
+    "  lang=lang||ttsConfig.accent;",
+    "  var v=pickVoice(lang);",
+    "  if(!v){playEndpoint(word,lang);return}",
+    "  var u=new SpeechSynthesisUtterance(word);u.voice=v;u.lang=v.lang;",
+    "  u.onerror=function(){playEndpoint(word,lang)};",
+    "  speechSynthesis.cancel();speechSynthesis.speak(u);",
+    "}",
+    "",
+    "function playEndpoint(word,lang){",
+    '  if(!ttsConfig.endpoint){toast("No English voice installed. Set a TTS endpoint in Vibe Translate settings.");return}',
+    '  var url=ttsConfig.endpoint.replace(/\\{text\\}/g,encodeURIComponent(word)).replace(/\\{lang\\}/g,lang).replace(/\\{accent\\}/g,lang==="en-GB"?"uk":"us");',
+    '  new Audio(url).play().catch(function(){toast("Could not play pronunciation")});',
+    "}",
+    "",
     'function esc(s){var d=document.createElement("div");d.textContent=s;return d.innerHTML}',
     "",
     "function fd(iso){",
@@ -207,7 +276,10 @@ interface WordStats {
   totalQueries: number;
 }
 
-export function buildWordbookHTML(wordsJSON: string, stats: WordStats): string {
+/**
+ * @param ttsJSON pronunciation settings (accent, voice, endpoint) for the speaker buttons
+ */
+export function buildWordbookHTML(wordsJSON: string, stats: WordStats, ttsJSON: string): string {
   const css = getWordbookCSS();
   const js = getWordbookJS();
 
@@ -258,6 +330,7 @@ export function buildWordbookHTML(wordsJSON: string, stats: WordStats): string {
     '<div class="toast" id="toast"></div>',
     "<script>",
     "var allWords=" + wordsJSON + ";",
+    "var ttsConfig=" + ttsJSON + ";",
     js,
     "</script>",
     "</body></html>",
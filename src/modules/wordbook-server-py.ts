@@ -111,6 +111,21 @@ def delete_word(word_id: str) -> bool:
         return True
     return False
 
+def get_open_url(w: dict) -> Optional[str]:
+    """zotero://open-pdf link to the page where the word was met, or None
+    for entries saved without an attachment key."""
+    source = w.get("source") or {}
+    if not source.get("attachmentKey"):
+        return None
+    position = w.get("position") or {}
+    page = position["pageIndex"] + 1 if isinstance(position.get("pageIndex"), int) else w.get("pageNumber")
+    library = f"groups/{source['groupID']}" if source.get("groupID") else "library"
+    return f"zotero://open-pdf/{library}/items/{source['attachmentKey']}" + (f"?page={page}" if page else "")
+
+def with_open_urls(words: List[dict]) -> List[dict]:
+    """Entries as served to the wordbook page and API, with their open link."""
+    return [{**w, "openURL": get_open_url(w)} for w in words]
+
 # ============ API Routes ============
 
 @app.get("/api/words")
@@ -135,7 +150,7 @@ def get_words(
     else:
         words.sort(key=lambda w: w.get("updatedAt", ""), reverse=True)
 
-    return {"words": words, "total": len(words)}
+    return {"words": with_open_urls(words), "total": len(words)}
 
 @app.post("/api/words/star")
 def toggle_star(req: StarRequest):
@@ -292,6 +307,8 @@ th{position:relative}
 .edit-actions{margin-top:4px;display:flex;gap:4px}
 .translation-cell{cursor:pointer}
 .translation-cell:hover{background:#f0f0ff}
+.open-link{color:#667eea;text-decoration:none;white-space:nowrap}
+.open-link:hover{text-decoration:underline}
 </style>
 </head>
 <body>
@@ -374,7 +391,7 @@ function render(words){
     return;
   }
   let h='<div class="table-responsive"><table class="table table-hover align-middle"><thead class="table-light"><tr>';
-  h+='<th style="width:100px">ID</th><th style="width:50px">&#x2B50;</th><th>Word</th><th>Translation (click to edit)</th><th style="width:80px">Count</th><th style="width:120px">Time</th><th style="width:60px"></th></tr></thead><tbody>';
+  h+='<th style="width:100px">ID</th><th style="width:50px">&#x2B50;</th><th>Word</th><th>Translation (click to edit)</th><th style="width:80px">Count</th><th style="width:70px">Page</th><th style="width:120px">Time</th><th style="width:60px"></th></tr></thead><tbody>';
   words.forEach(function(w){
     h+='<tr>';
     h+='<td class="id-cell" data-fullid="'+w.id+'" title="Click to copy: '+w.id+'">'+w.id.substring(0,8)+'...</td>';
@@ -382,6 +399,7 @@ function render(words){
     h+='<td><strong>'+esc(w.word)+'</strong> <span class="badge '+(w.isSingleWord?'bg-primary':'bg-info')+' ms-1">'+(w.isSingleWord?'Word':'Phrase')+'</span></td>';
     h+='<td class="translation-cell" data-id="'+w.id+'" onclick="editTranslation(this)">'+esc(w.translation)+'</td>';
     h+='<td class="text-center"><span class="badge bg-secondary">'+w.queryCount+'x</span></td>';
+    h+='<td>'+pageHTML(w)+'</td>';
     h+='<td><small class="text-muted">'+fmtDate(w.updatedAt)+'</small></td>';
     h+='<td><button class="btn btn-sm btn-outline-danger" data-id="'+w.id+'" data-word="'+esc(w.word).replace(/"/g,'&quot;')+'" onclick="deleteWord(this.dataset.id,this.dataset.word)">&#x1F5D1;&#xFE0F;</button></td>';
     h+='</tr>';
@@ -391,6 +409,11 @@ function render(words){
 }
 
 function esc(s){const d=document.createElement("div");d.textContent=s;return d.innerHTML}
+function pageHTML(w){
+  var label=w.pageNumber?"P"+w.pageNumber:"";
+  if(!w.openURL)return label||"-";
+  return '<a class="open-link" href="'+w.openURL+'" title="Open in Zotero at this page">'+(label||"Open")+' \\u2197</a>';
+}
 function fmtDate(iso){
   const d=new Date(iso),n=new Date(),ms=n-d,m=Math.floor(ms/6e4),h=Math.floor(ms/36e5),dy=Math.floor(ms/864e5);
   if(m<1)return"just now";if(m<60)return m+"m ago";if(h<24)return h+"h ago";if(dy<7)return dy+"d ago";
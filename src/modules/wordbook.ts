@@ -13,6 +13,10 @@
 import { log, debug, error } from "./debug";
 import { buildWordbookHTML } from "./wordbook-html";
 import { WORDBOOK_SERVER_PY } from "./wordbook-server-py";
+import { formatTranslation, type StructuredTranslation } from "./translation-result";
+import { getTTSSettings } from "./tts";
+import { getOpenPdfURL, type PaperSource } from "./paper-metadata";
+import type { FollowUpTurn } from "./llm-service";
 
 const PREF_PREFIX = "extensions.vibe-zotero-translate";
 const API_PREFIX = "/vibe-wordbook";
@@ -21,15 +25,41 @@ const HTML_FILENAME = "wordbook.html";
 
 // ============ Data Types ============
 
-interface WordEntry {
+/** Selection position as reported by the reader (PDF coordinates) */
+export interface SourcePosition {
+  /** 0-based page index */
+  pageIndex: number;
+  rects: number[][];
+  /** The page's own label (roman front matter, journal page), when known */
+  pageLabel?: string;
+}
+
+/** A follow-up conversation about an entry, saved from the popup */
+export interface ConversationThread {
+  /** Identifies the conversation, so saving it again updates it */
+  id: string;
+  turns: FollowUpTurn[];
+  savedAt: string;
+}
+
+export interface WordEntry {
   id: string;
   word: string;
+  /** Plain-text rendering of `result`, used by the HTML page and CSV export */
   translation: string;
+  /** Parsed translation (absent in entries saved by older versions) */
+  result?: StructuredTranslation;
   isSingleWord: boolean;
   starred: boolean;
   queryCount: number;
   pageNumber: number | null;
   sourceTitle: string | null;
+  /** The paper the word was last looked up in (absent in older entries) */
+  source?: PaperSource;
+  /** Where the word was selected in the attachment `source.attachmentKey` */
+  position?: SourcePosition;
+  /** Follow-up conversations (absent until one is saved) */
+  threads?: ConversationThread[];
   createdAt: string;
   updatedAt: string;
 }
@@ -40,7 +70,7 @@ interface WordEntry {
  * Cross-platform path join using nsIFile.append().
  * Avoids mixing "/" and "\" which breaks nsIFile.initWithPath on Windows.
  */
-function joinPath(base: string, ...parts: string[]): string {
+export function joinPath(base: string, ...parts: string[]): string {
   const file = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
   file.initWithPath(base);
   for (const part of parts) {
@@ -49,7 +79,7 @@ function joinPath(base: string, ...parts: string[]): string {
   return file.path;
 }
 
-function getWordbookDir(): string {
+export function getWordbookDir(): string {
   try {
     const customPath = Zotero.Prefs.get(`${PREF_PREFIX}.wordbookPath`, true) as string;
     if (customPath && customPath.trim()) {
@@ -191,6 +221,31 @@ function findWordByText(wordText: string): WordEntry | null {
   return allWords.find(w => w.word.toLowerCase() === wordText.toLowerCase()) || null;
 }
 
+/**
+ * Entries last looked up in the given paper (regular item), newest first.
+ */
+export function getWordsForItem(libraryID: number, itemKey: string): WordEntry[] {
+  return readAllWords()
+    .filter((w) => w.source?.libraryID === libraryID && w.source.itemKey === itemKey)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * zotero://open-pdf link to the page where the word was met, or null for
+ * entries saved without an attachment key.
+ */
+function getOpenURL(entry: WordEntry): string | null {
+  if (!entry.source) return null;
+  return getOpenPdfURL(entry.source, entry.position ? entry.position.pageIndex + 1 : entry.pageNumber);
+}
+
+/**
+ * Entries as served to the wordbook page and API, with their open link.
+ */
+function withOpenURLs(words: WordEntry[]): Array<WordEntry & { openURL: string | null }> {
+  return words.map((w) => ({ ...w, openURL: getOpenURL(w) }));
+}
+
 function csvEscape(s: string): string {
   if (s.includes(",") || s.includes('"') || s.includes("\n")) {
     return '"' + s.replace(/"/g, '""') + '"';
@@ -202,20 +257,27 @@ function csvEscape(s: string): string {
 
 export function saveWord(
   word: string,
-  translation: string,
+  result: StructuredTranslation,
   isSingleWord: boolean,
   pageNumber: number | null,
-  sourceTitle: string | null = null,
+  source: PaperSource | null = null,
+  position: SourcePosition | null = null,
 ): void {
   try {
     const now = new Date().toISOString();
+    const translation = formatTranslation(result);
     const existing = findWordByText(word);
     if (existing) {
       existing.translation = translation;
+      existing.result = result;
       existing.queryCount += 1;
       existing.updatedAt = now;
       if (pageNumber !== null) existing.pageNumber = pageNumber;
-      if (sourceTitle) existing.sourceTitle = sourceTitle;
+      if (source) {
+        existing.source = source;
+        existing.sourceTitle = source.title;
+      }
+      if (position) existing.position = position;
       writeWordFile(existing);
       debug(`Updated word: "${word}" (count: ${existing.queryCount})`);
     } else {
@@ -223,11 +285,14 @@ export function saveWord(
         id: generateUUID(),
         word: word.trim(),
         translation,
+        result,
         isSingleWord,
         starred: false,
         queryCount: 1,
         pageNumber,
-        sourceTitle,
+        sourceTitle: source?.title || null,
+        ...(source ? { source } : {}),
+        ...(position ? { position } : {}),
         createdAt: now,
         updatedAt: now,
       };
@@ -239,6 +304,22 @@ export function saveWord(
   }
 }
 
+/**
+ * Save a follow-up conversation into the entry of `word`, replacing an
+ * earlier save of the same conversation. Returns false when the word is
+ * not in the wordbook.
+ */
+export function saveThread(word: string, threadId: string, turns: FollowUpTurn[]): boolean {
+  const entry = findWordByText(word.trim());
+  if (!entry) return false;
+  const thread: ConversationThread = { id: threadId, turns, savedAt: new Date().toISOString() };
+  const threads = (entry.threads || []).filter((t) => t.id !== threadId);
+  entry.threads = [...threads, thread];
+  writeWordFile(entry);
+  debug(`Saved ${turns.length} follow-up(s) to "${entry.word}"`);
+  return true;
+}
+
 // ============ Zotero Server Endpoints ============
 
 export function registerServerEndpoints(): void {
@@ -285,7 +366,7 @@ export function registerServerEndpoints(): void {
           words.sort((a: WordEntry, b: WordEntry) =>
             new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()); break;
       }
-      return [200, "application/json", JSON.stringify({ words, total: words.length })];
+      return [200, "application/json", JSON.stringify({ words: withOpenURLs(words), total: words.length })];
     } catch (e: any) {
       return [500, "application/json", JSON.stringify({ error: e.message })];
     }
@@ -395,10 +476,11 @@ export function openWordbook(): void {
     const words = readAllWords();
     words.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 
-    const wordsJSON = JSON.stringify(words)
+    const escapeJSON = (json: string) => json
       .replace(/</g, "\\u003c")
       .replace(/>/g, "\\u003e")
       .replace(/&/g, "\\u0026");
+    const wordsJSON = escapeJSON(JSON.stringify(withOpenURLs(words)));
 
     const stats = {
       total: words.length,
@@ -408,7 +490,7 @@ export function openWordbook(): void {
       totalQueries: words.reduce((sum, w) => sum + w.queryCount, 0),
     };
 
-    const htmlContent = buildWordbookHTML(wordsJSON, stats);
+    const htmlContent = buildWordbookHTML(wordsJSON, stats, escapeJSON(JSON.stringify(getTTSSettings())));
     const htmlPath = joinPath(wordbookDir, HTML_FILENAME);
     const file = Cc["@mozilla.org/file/local;1"].createInstance(Ci.nsIFile);
     file.initWithPath(htmlPath);
@@ -0,0 +1,216 @@
+/**
+ * Save to Zotero - keeps translations inside the library, where
+ * collaborators on shared (group) libraries can see them.
+ *
+ * Two destinations: a highlight annotation on the selection with the
+ * translation as its comment, and a "Vibe Translate" child note of the
+ * parent item that collects selections and translations. Batch translation
+ * writes into existing annotations' comments or a separate highlights note;
+ * page and document translation into a bilingual note.
+ */
+
+import { debug, log } from "./debug";
+import { getOpenPdfURL, type PaperSource } from "./paper-metadata";
+import { formatTranslation, type StructuredTranslation } from "./translation-result";
+import type { SourcePosition } from "./wordbook";
+
+/** Zotero's default (yellow) highlight color */
+const HIGHLIGHT_COLOR = "#ffd400";
+/** First line of the child note; used to find it again */
+const NOTE_TITLE = "Vibe Translate";
+const HIGHLIGHTS_NOTE_TITLE = "Vibe Translate: Highlights";
+/** Starts the translation in an annotation comment */
+const COMMENT_MARKER = "🌐 ";
+
+/** One translated highlight in the highlights note */
+export interface NoteEntry {
+  text: string;
+  translation: string;
+  /** 1-based physical page, for the link */
+  page: number | null;
+  /** The page's label in the PDF, shown instead of the page when set */
+  pageLabel?: string | null;
+}
+
+/** A source paragraph block and its translation, in the bilingual note */
+export interface BilingualRow {
+  page: number | null;
+  source: string;
+  translation: string;
+}
+
+function getEditableItem(libraryID: number, key: string): any {
+  const item = Zotero.Items.getByLibraryAndKey(libraryID, key);
+  if (!item) throw new Error("The item is no longer in the library");
+  if (!item.library?.editable) throw new Error("This library is read-only");
+  return item;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toParagraphs(text: string): string {
+  return text.trim().split(/\n{2,}/)
+    .map((block) => `<p>${escapeHTML(block).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+/**
+ * Create a highlight annotation on the selection, with the translation in
+ * its comment. The reader shows it as soon as it is saved. The page label
+ * is the PDF's own when known, as on annotations Zotero creates.
+ */
+export async function saveAsAnnotation(
+  source: PaperSource,
+  position: SourcePosition,
+  text: string,
+  result: StructuredTranslation,
+): Promise<void> {
+  if (!source.attachmentKey) throw new Error("No PDF attachment to annotate");
+  if (position.rects.length === 0) throw new Error("The selection has no position on the page");
+  const attachment = getEditableItem(source.libraryID, source.attachmentKey);
+
+  const pageIndex = String(position.pageIndex).padStart(5, "0");
+  await Zotero.Annotations.saveFromJSON(attachment, {
+    key: Zotero.DataObjectUtils.generateKey(),
+    type: "highlight",
+    text,
+    comment: formatTranslation(result),
+    color: HIGHLIGHT_COLOR,
+    pageLabel: position.pageLabel || String(position.pageIndex + 1),
+    // Text offset and top are unknown outside the reader; zeros sort the
+    // annotation first among those on its page
+    sortIndex: `${pageIndex}|000000|00000`,
+    position: { pageIndex: position.pageIndex, rects: position.rects },
+  });
+  log(`Saved highlight annotation on page ${position.pageIndex + 1}`);
+}
+
+/**
+ * Whether an annotation comment already holds a translation written by
+ * batch translation.
+ */
+export function hasCommentTranslation(annotation: any): boolean {
+  return (annotation.annotationComment || "").includes(COMMENT_MARKER);
+}
+
+/**
+ * Add a translation below an annotation's existing comment.
+ */
+export async function addCommentTranslation(annotation: any, translation: string): Promise<void> {
+  const comment: string = (annotation.annotationComment || "").trim();
+  annotation.annotationComment = (comment ? `${comment}\n\n` : "") + COMMENT_MARKER + translation;
+  await annotation.saveTx();
+}
+
+function findChildNote(parent: any, title: string): any | null {
+  for (const id of parent.getNotes()) {
+    const note = Zotero.Items.get(id);
+    if (note?.getNoteTitle() === title) return note;
+  }
+  return null;
+}
+
+function buildNoteEntry(source: PaperSource, entry: NoteEntry): string {
+  const url = getOpenPdfURL(source, entry.page);
+  const shown = entry.pageLabel ? escapeHTML(entry.pageLabel) : entry.page;
+  const pageLink = url && entry.page && shown
+    ? `<p><a href="${escapeHTML(url)}">p. ${shown}</a></p>`
+    : shown ? `<p>p. ${shown}</p>` : "";
+  return `<blockquote>${toParagraphs(entry.text)}</blockquote>${toParagraphs(entry.translation)}${pageLink}<hr>`;
+}
+
+function getNoteParent(source: PaperSource): any {
+  const parent = getEditableItem(source.libraryID, source.itemKey);
+  if (!parent.isRegularItem()) throw new Error("Standalone PDFs cannot have child notes");
+  return parent;
+}
+
+async function createChildNote(parent: any, html: string): Promise<any> {
+  const note = new Zotero.Item("note");
+  note.libraryID = parent.libraryID;
+  note.parentID = parent.id;
+  note.setNote(html);
+  await note.saveTx();
+  return note;
+}
+
+/**
+ * Append the selection and its translation to the parent item's
+ * "Vibe Translate" note, creating the note on first use.
+ */
+export async function appendToNote(
+  source: PaperSource,
+  text: string,
+  result: StructuredTranslation,
+  page: number | null,
+): Promise<void> {
+  const parent = getNoteParent(source);
+  const entry = buildNoteEntry(source, { text, translation: formatTranslation(result), page });
+  const existing = findChildNote(parent, NOTE_TITLE);
+  if (existing) {
+    const html: string = existing.getNote();
+    // Notes written by the note editor are wrapped in a schema <div>
+    const closing = html.lastIndexOf("</div>");
+    existing.setNote(closing >= 0 && html.trimEnd().endsWith("</div>")
+      ? html.substring(0, closing) + entry + html.substring(closing)
+      : html + entry);
+    await existing.saveTx();
+    debug(`Appended translation to note ${existing.key}`);
+    return;
+  }
+
+  const note = await createChildNote(parent, `<div data-schema-version="9"><h1>${NOTE_TITLE}</h1>${entry}</div>`);
+  log(`Created translation note ${note.key}`);
+}
+
+/**
+ * Write the "Vibe Translate: Highlights" note of the parent item, replacing
+ * the one from an earlier batch run.
+ */
+export async function writeHighlightsNote(source: PaperSource, attachmentTitle: string, entries: NoteEntry[]): Promise<void> {
+  const parent = getNoteParent(source);
+  const html = `<div data-schema-version="9"><h1>${HIGHLIGHTS_NOTE_TITLE}</h1>`
+    + `<p>${escapeHTML(attachmentTitle)}</p>`
+    + entries.map((entry) => buildNoteEntry(source, entry)).join("")
+    + "</div>";
+
+  const existing = findChildNote(parent, HIGHLIGHTS_NOTE_TITLE);
+  if (existing) {
+    existing.setNote(html);
+    await existing.saveTx();
+    debug(`Rewrote highlights note ${existing.key} (${entries.length} entries)`);
+    return;
+  }
+  const note = await createChildNote(parent, html);
+  log(`Created highlights note ${note.key} (${entries.length} entries)`);
+}
+
+/**
+ * Create a child note with the source text and its translation side by
+ * side, under a heading (linking to the PDF page) for every page.
+ */
+export async function writeBilingualNote(source: PaperSource, title: string, rows: BilingualRow[]): Promise<void> {
+  const parent = getNoteParent(source);
+  let body = "";
+  let page: number | null | undefined;
+  for (const row of rows) {
+    if (row.page !== page) {
+      if (page !== undefined) body += "</table>";
+      page = row.page;
+      const url = getOpenPdfURL(source, page);
+      const heading = page ? `Page ${page}` : "Full text";
+      body += `<h2>${url && page ? `<a href="${escapeHTML(url)}">${heading}</a>` : heading}</h2><table>`;
+    }
+    body += `<tr><td>${toParagraphs(row.source)}</td><td>${toParagraphs(row.translation)}</td></tr>`;
+  }
+  if (page !== undefined) body += "</table>";
+
+  const note = await createChildNote(parent, `<div data-schema-version="9"><h1>${escapeHTML(title)}</h1>${body}</div>`);
+  log(`Created bilingual note ${note.key} (${rows.length} blocks)`);
+}
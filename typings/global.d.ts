@@ -11,6 +11,18 @@ declare interface VibeZoteroTranslateGlobal {
   init(params: { id: string; version: string; rootURI: string }): Promise<void>;
   shutdown(): void;
   testConnection(): Promise<string>;
+  listLocalModels(endpoint?: string): Promise<string[]>;
+  listProfiles(): Array<{ id: string; name: string; provider: string; modelId: string }>;
+  saveProfile(name: string): string;
+  deleteProfile(id: string): boolean;
+  setActiveProfile(id: string): void;
+  clearCache(): number;
+  getPromptTemplate(kind: string): string;
+  savePromptTemplate(kind: string, template: string): void;
+  resetPromptTemplate(kind: string): string;
+  previewPromptTemplate(kind: string, template: string): string;
+  listVoices(): Array<{ name: string; lang: string }>;
+  pronounce(text: string, accent?: string): Promise<void>;
   openWordbook(): Promise<void>;
 }
 
@@ -3,6 +3,8 @@
 /* eslint-disable */
 // @ts-nocheck
 export type FluentMessageId =
+  | 'history-header'
+  | 'history-sidenav'
   | 'menuitem-translate'
   | 'startup-begin'
   | 'startup-finish'
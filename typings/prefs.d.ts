@@ -9,16 +9,80 @@ declare namespace _ZoteroTypes {
     PluginPrefsMap: {
       "enable": boolean;
       "popupPosition": string;
-      "enableContext": boolean;
+      "contextMode": string;
       "provider": string;
       "bedrock.apiKey": string;
       "bedrock.modelId": string;
       "bedrock.region": string;
+      "bedrock.authMode": string;
+      "bedrock.accessKeyId": string;
+      "bedrock.secretAccessKey": string;
+      "bedrock.sessionToken": string;
+      "bedrock.profile": string;
+      "bedrock.maxTokens": number;
+      "bedrock.temperature": string;
+      "bedrock.topP": string;
+      "bedrock.timeout": number;
       "openai.apiKey": string;
       "openai.modelId": string;
       "openai.endpoint": string;
+      "openai.maxTokens": number;
+      "openai.temperature": string;
+      "openai.topP": string;
+      "openai.timeout": number;
+      "anthropic.apiKey": string;
+      "anthropic.modelId": string;
+      "anthropic.endpoint": string;
+      "anthropic.maxTokens": number;
+      "anthropic.temperature": string;
+      "anthropic.topP": string;
+      "anthropic.timeout": number;
+      "google.apiKey": string;
+      "google.modelId": string;
+      "google.endpoint": string;
+      "google.maxTokens": number;
+      "google.temperature": string;
+      "google.topP": string;
+      "google.timeout": number;
+      "ollama.apiKey": string;
+      "ollama.modelId": string;
+      "ollama.endpoint": string;
+      "ollama.maxTokens": number;
+      "ollama.temperature": string;
+      "ollama.topP": string;
+      "ollama.timeout": number;
+      "profiles": string;
+      "activeProfile": string;
+      "fallbackProfiles": string;
+      "retry.maxRetries": number;
+      "retry.baseDelay": number;
       "targetLanguage": string;
       "autoTranslate": boolean;
+      "stream": boolean;
+      "prompt.word": string;
+      "prompt.phrase": string;
+      "prompt.passage": string;
+      "prompt.document": string;
+      "prompt.followup": string;
+      "prompt.explain": string;
+      "prompt.summarize": string;
+      "prompt.paraphrase": string;
+      "prompt.formula": string;
+      "prompt.jargon": string;
+      "prompt.polish": string;
+      "prompt.region": string;
+      "cache.enabled": boolean;
+      "cache.maxEntries": number;
+      "tts.accent": string;
+      "tts.voice": string;
+      "tts.endpoint": string;
+      "batch.target": string;
+      "batch.concurrency": number;
+      "document.output": string;
+      "document.chunkChars": number;
+      "document.concurrency": number;
+      "history.pinned": string;
+      "panel.geometry": string;
       "wordbookPath": string;
       "debug": boolean;
     };